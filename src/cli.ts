@@ -3,6 +3,13 @@
 import { Command } from "commander";
 import { Logger } from "./utils.js";
 import { GitOopsError } from "./types.js";
+import {
+  emitReport,
+  isJsonMode,
+  reportError,
+  setReportOperation,
+  startReport,
+} from "./lib/report.js";
 import { addCustomHelp, addCustomHelpToCommand } from "./help.js";
 
 // Import commands
@@ -10,10 +17,17 @@ import { wrongBranchCommand } from "./cmd/wrongBranch.js";
 import { splitCommand } from "./cmd/split.js";
 import { yankCommand } from "./cmd/yank.js";
 import { pocketCommand } from "./cmd/pocket.js";
+import { unpocketCommand } from "./cmd/unpocket.js";
 import { revertMergeCommand } from "./cmd/revertMerge.js";
 import { undoCommand } from "./cmd/undo.js";
 import { fixupCommand } from "./cmd/fixup.js";
+import { absorbCommand } from "./cmd/absorb.js";
 import { saveCommand } from "./cmd/save.js";
+import { historyCommand } from "./cmd/history.js";
+import { rollbackCommand } from "./cmd/rollback.js";
+import { tagsCommand } from "./cmd/tags.js";
+import { rescueCommand } from "./cmd/rescue.js";
+import { configCommand } from "./cmd/config.js";
 
 const packageJson = await import("../package.json", { with: { type: "json" } });
 
@@ -25,7 +39,24 @@ async function main() {
     .description("CLI for real-world Git disasters")
     .version(packageJson.default.version)
     .option("--verbose", "enable verbose logging")
-    .option("--no-color", "disable colored output");
+    .option("--no-color", "disable colored output")
+    .option("--json", "print one machine-readable result object");
+
+  // Decided before parsing so that usage errors come out as JSON too
+  if (process.argv.includes("--json")) {
+    startReport();
+    program.configureOutput({ writeErr: () => {} });
+  }
+
+  program.hook("preAction", (_program, actionCommand) => {
+    setReportOperation(commandPath(actionCommand));
+
+    // Commander gives --verbose to the program wherever it appears on the
+    // command line, so hand it on to the command being run
+    if (program.opts().verbose) {
+      actionCommand.setOptionValue("verbose", true);
+    }
+  });
 
   // Add custom help system
   addCustomHelp(program);
@@ -36,10 +67,17 @@ async function main() {
     splitCommand,
     yankCommand,
     pocketCommand,
+    unpocketCommand,
     revertMergeCommand,
     undoCommand,
     fixupCommand,
+    absorbCommand,
     saveCommand,
+    historyCommand,
+    rollbackCommand,
+    tagsCommand,
+    rescueCommand,
+    configCommand,
   ];
 
   commands.forEach((cmd) => {
@@ -52,6 +90,7 @@ async function main() {
 
   try {
     await program.parseAsync();
+    emitReport();
   } catch (error: any) {
     const logger = new Logger({ noColor: process.env.NO_COLOR === "1" });
 
@@ -70,7 +109,22 @@ async function main() {
   }
 }
 
+// "pocket drop" for the drop subcommand of pocket
+function commandPath(command: Command): string {
+  const names: string[] = [];
+  for (let cmd: Command | null = command; cmd?.parent; cmd = cmd.parent) {
+    names.unshift(cmd.name());
+  }
+  return names.join(" ");
+}
+
 function handleError(error: any, logger: Logger) {
+  if (isJsonMode()) {
+    reportError(error);
+    emitReport();
+    process.exit(error instanceof GitOopsError ? error.code : 1);
+  }
+
   if (error instanceof GitOopsError) {
     logger.error(error.message);
     process.exit(error.code);
@@ -0,0 +1,269 @@
+import { Command } from "commander";
+import { Git } from "../lib/git.js";
+import { Journal, JournalOperation } from "../lib/journal.js";
+import { resolveBase } from "../lib/base.js";
+import { Plan, executePlan } from "../lib/plan.js";
+import { planAbsorb } from "../lib/absorb.js";
+import { autosquash, resolveRewritableCommit } from "../lib/autosquash.js";
+import { buildSplitCommits } from "../lib/split.js";
+import { createSafetyTag, safetyTagName } from "../lib/safetyTags.js";
+import {
+  Logger,
+  confirm,
+  pluralize,
+  shortSha,
+  truncateText,
+} from "../utils.js";
+import { BaseOptions, ValidationError } from "../types.js";
+
+interface AbsorbOptions extends BaseOptions {
+  andRebase?: boolean;
+  dryRun?: boolean;
+  yes?: boolean;
+}
+
+export const absorbCommand = new Command("absorb")
+  .description(
+    "Turn staged hunks into fixup commits for the unpushed commits they belong to"
+  )
+  .option(
+    "-r, --and-rebase",
+    "fold the fixup commits in right away with an autosquash rebase"
+  )
+  .option("--dry-run", "show what would be done without executing")
+  .option("--yes", "skip confirmation prompts")
+  .option("--verbose", "enable verbose logging")
+  .action(async (options: AbsorbOptions) => {
+    const logger = new Logger(options);
+    const git = new Git(logger);
+    let operation: JournalOperation | undefined;
+
+    try {
+      const stagedFiles = await git.getStagedFiles();
+      if (stagedFiles.length === 0) {
+        logger.info("ℹ️  No staged changes to absorb");
+        logger.info("💡 Stage your fixes first with: git add -p");
+        return;
+      }
+
+      // Only commits that are not on the upstream yet may be rewritten
+      const branch = await git.getSymbolicHead();
+      const upstream = (await resolveBase(git, logger))?.ref ?? null;
+      if (!upstream) {
+        throw new ValidationError(
+          `'${branch ?? "HEAD"}' has no upstream and no base branch was found, so there is no telling which commits are unpushed. ` +
+            `Set one with: git push -u origin ${branch ?? "<branch>"}`
+        );
+      }
+
+      const unpushedCount = await git.countCommits(`${upstream}..HEAD`);
+      logger.verbose(`Unpushed commits since ${upstream}: ${unpushedCount}`);
+      if (unpushedCount === 0) {
+        logger.info(
+          `ℹ️  Every commit is already on ${upstream} - nothing to absorb into`
+        );
+        return;
+      }
+
+      const plan = await planAbsorb(git, upstream);
+      const absorbed = plan.targets.reduce(
+        (count, target) => count + target.hunks.length,
+        0
+      );
+
+      logger.info(
+        `🧽 Absorb plan (${pluralize(absorbed, "hunk")} into ${pluralize(
+          plan.targets.length,
+          "commit"
+        )}):`
+      );
+      for (const target of plan.targets) {
+        logger.info(
+          `\n🎯 ${shortSha(target.sha)} ${truncateText(target.subject, 60)}`
+        );
+        for (const hunk of target.hunks) {
+          logger.info(`  • ${hunk.file} ${hunk.header}`);
+        }
+      }
+
+      if (plan.unabsorbed.length > 0) {
+        logger.info(`\n📌 Staying staged:`);
+        for (const change of plan.unabsorbed) {
+          logger.info(
+            `  • ${[change.file, change.header].filter(Boolean).join(" ")}`
+          );
+          logger.dim(`    ${change.reason}`);
+        }
+      }
+
+      if (plan.targets.length === 0) {
+        logger.info(
+          "\nℹ️  No staged hunk belongs to a single unpushed commit - nothing absorbed"
+        );
+        return;
+      }
+
+      // The autosquash rebase would flatten merges, so --and-rebase is held
+      // to the same rules as fixup --to
+      if (options.andRebase) {
+        await resolveRewritableCommit(git, plan.targets[0].sha, upstream);
+      }
+
+      const head = await git.resolveRef("HEAD");
+      const indexTree = await git.writeTree();
+      if (!head || !indexTree) {
+        throw new ValidationError(
+          "The index has unresolved conflicts. Resolve them before absorbing"
+        );
+      }
+
+      if (options.dryRun) {
+        logger.plan([
+          ...(options.andRebase
+            ? ["Create safety tag pointing to current HEAD"]
+            : []),
+          ...plan.targets.map(
+            (target) =>
+              `Commit "fixup! ${shortSha(target.sha)}" with ${pluralize(
+                target.hunks.length,
+                "hunk"
+              )}`
+          ),
+          `Move ${branch ? `'${branch}'` : "HEAD"} to the last fixup commit`,
+          ...(options.andRebase
+            ? [
+                `Rebase from ${shortSha(plan.targets[0].sha)} with --autosquash, folding in the fixups`,
+              ]
+            : []),
+        ]);
+        return;
+      }
+
+      if (!options.yes) {
+        const confirmed = await confirm(
+          `Create ${pluralize(plan.targets.length, "fixup commit")}${
+            options.andRebase ? " and rebase them in" : ""
+          }?`,
+          true,
+          options
+        );
+
+        if (!confirmed) {
+          logger.info("Absorb operation cancelled");
+          return;
+        }
+      }
+
+      operation = await new Journal(git).begin("absorb");
+
+      let tagName: string | undefined;
+      if (options.andRebase) {
+        tagName = safetyTagName("absorb");
+        logger.info("🛡️  Creating safety tag...");
+        await createSafetyTag(git, tagName, "Safety backup before absorbing");
+        operation.addSafetyTag(tagName);
+        logger.success(`✅ Created safety tag: ${tagName}`);
+      }
+
+      // Built in a scratch index like split, so only the absorbed hunks go
+      // into the fixup commits and the rest stays staged
+      logger.info("\n🧽 Creating fixup commits...");
+      const commits = await buildSplitCommits(
+        git,
+        head,
+        indexTree,
+        plan.targets.map((target) => ({
+          message: `fixup! ${target.sha}`,
+          files: [],
+          hunks: target.hunks,
+        }))
+      );
+      await executePlan(
+        git,
+        logger,
+        new Plan().add({
+          kind: "update-ref",
+          ref: branch ? `refs/heads/${branch}` : "HEAD",
+          sha: commits[commits.length - 1].sha,
+          expected: head,
+        })
+      );
+
+      if (options.andRebase) {
+        await foldFixups(git, logger, operation, plan.targets[0].sha, tagName!);
+      }
+
+      const entry = await operation.complete();
+
+      logger.success(
+        `✅ Absorbed ${pluralize(absorbed, "hunk")} into ${pluralize(
+          plan.targets.length,
+          "commit"
+        )}`
+      );
+
+      logger.info(`\n🚀 Next steps:`);
+      logger.info(`  • Review: git log --oneline ${upstream}..HEAD`);
+      if (!options.andRebase) {
+        logger.info(
+          `  • Fold the fixups in: git rebase -i --autosquash ${upstream}`
+        );
+      }
+      if (entry) {
+        logger.info(`  • To undo: git oops rollback ${entry.id}`);
+      }
+    } catch (error) {
+      await operation?.fail(error);
+      logger.error(`Absorb operation failed: ${error}`);
+      throw error;
+    }
+  });
+
+// The rebase needs a clean tree, so whatever was not absorbed is set aside
+// in a stash commit and put back afterwards with its index, so that hunks
+// that were staged stay staged
+async function foldFixups(
+  git: Git,
+  logger: Logger,
+  operation: JournalOperation,
+  oldest: string,
+  tagName: string
+): Promise<void> {
+  const leftover = await git.stashCreate("absorb: changes not absorbed");
+  if (leftover) {
+    operation.addStash(leftover);
+    await git.resetHard("HEAD");
+  }
+
+  logger.info("🔄 Folding the fixups in...");
+  try {
+    await autosquash(git, oldest, tagName);
+  } catch (error) {
+    if (leftover) {
+      await keepLeftover(git, logger, leftover);
+    }
+    throw error;
+  }
+
+  if (leftover) {
+    try {
+      await git.exec(["stash", "apply", "--index", leftover]);
+    } catch {
+      await git.resetHard("HEAD");
+      await keepLeftover(git, logger, leftover);
+    }
+  }
+}
+
+async function keepLeftover(git: Git, logger: Logger, leftover: string) {
+  await git.exec([
+    "stash",
+    "store",
+    "-m",
+    "absorb: changes not absorbed",
+    leftover,
+  ]);
+  logger.warn(
+    "The changes that were not absorbed are saved as stash@{0}. Bring them back with: git stash pop --index"
+  );
+}
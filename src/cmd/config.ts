@@ -0,0 +1,58 @@
+import { Command } from "commander";
+import { Git } from "../lib/git.js";
+import {
+  CONFIG_KEYS,
+  CONFIG_SETTINGS,
+  envVariable,
+  formatConfigValue,
+  loadConfig,
+} from "../lib/config.js";
+import { reportData } from "../lib/report.js";
+import { Logger } from "../utils.js";
+import { BaseOptions } from "../types.js";
+
+const listCommand = new Command("list")
+  .description("Show effective settings and where each one came from")
+  .option("--verbose", "enable verbose logging")
+  .action(async (options: BaseOptions) => {
+    const logger = new Logger(options);
+    const git = new Git(logger);
+
+    try {
+      const config = await loadConfig(git);
+      reportData(config);
+      const width = Math.max(...CONFIG_KEYS.map((key) => key.length));
+
+      logger.info("⚙️  Effective git-oops configuration:");
+      for (const key of CONFIG_KEYS) {
+        const origin = config.origins[key];
+        logger.info(
+          `  ${key.padEnd(width)}  ${formatConfigValue(config.values[key])}`
+        );
+        logger.dim(
+          `  ${" ".repeat(width)}  ${config.sources[key]}${
+            origin && origin !== config.sources[key] ? `: ${origin}` : ""
+          }`
+        );
+        logger.verbose(
+          `${CONFIG_SETTINGS[key].description} (env: ${envVariable(key)})`
+        );
+      }
+
+      for (const warning of config.warnings) {
+        logger.warn(warning);
+      }
+
+      logger.info(
+        "\n💡 Set values with: git config --global oops.<key> <value>, a .gitoopsrc " +
+          "JSON file, or GIT_OOPS_<KEY> environment variables"
+      );
+    } catch (error) {
+      logger.error(`Config list failed: ${error}`);
+      throw error;
+    }
+  });
+
+export const configCommand = new Command("config")
+  .description("Inspect git-oops settings")
+  .addCommand(listCommand, { isDefault: true });
@@ -1,31 +1,69 @@
 import { Command } from "commander";
-import { Git } from "../lib/git.js";
-import { Logger, confirm, truncateText } from "../utils.js";
+import { EMPTY_TREE, Git } from "../lib/git.js";
+import { Journal, JournalOperation } from "../lib/journal.js";
+import { resolveBase } from "../lib/base.js";
+import { loadConfig } from "../lib/config.js";
+import { autosquash, resolveRewritableCommit } from "../lib/autosquash.js";
+import { createSafetyTag, safetyTagName } from "../lib/safetyTags.js";
+import { DEFAULT_MESSAGE_TEMPLATE } from "../lib/messages.js";
+import {
+  buildMessageRequest,
+  getMessageProvider,
+  suggestMessage,
+} from "../lib/provider.js";
+import {
+  Logger,
+  confirm,
+  pluralize,
+  shortSha,
+  truncateText,
+} from "../utils.js";
 import { BaseOptions, ValidationError } from "../types.js";
 
 interface FixupOptions extends BaseOptions {
   yes?: boolean;
   dryRun?: boolean;
   message?: string;
+  suggest?: boolean;
+  to?: string;
 }
 
 export const fixupCommand = new Command("fixup")
   .description("Quickly fix the last commit with current changes")
+  .option(
+    "--to <commit>",
+    "fix an older unpushed commit (sha, ref or :/subject) instead of HEAD"
+  )
   .option("-m, --message <message>", "update the commit message")
+  .option(
+    "--suggest",
+    "ask the message provider for a message describing the fixed commit"
+  )
   .option("--dry-run", "show what would be done without executing")
   .option("--yes", "skip confirmation prompts")
   .option("--verbose", "enable verbose logging")
   .action(async (options: FixupOptions) => {
     const logger = new Logger(options);
     const git = new Git(logger);
+    let operation: JournalOperation | undefined;
 
     try {
+      if (options.suggest && options.message) {
+        throw new ValidationError(
+          "Use either --message or --suggest, not both"
+        );
+      }
+      if (options.suggest && options.to) {
+        throw new ValidationError(
+          "--suggest only works on the last commit; use --message with --to"
+        );
+      }
+
       // Check if we have any changes to fix up
       const status = await git.getStatus();
       const hasChanges = status.staged.length > 0 || status.unstaged.length > 0;
-      const hasMessage = !!options.message;
 
-      if (!hasChanges && !hasMessage) {
+      if (!hasChanges && !options.message && !options.suggest) {
         logger.info("ℹ️  Nothing to fixup");
         logger.info(
           "💡 Stage some changes with 'git add' or provide a new message with --message"
@@ -39,16 +77,32 @@ export const fixupCommand = new Command("fixup")
         throw new ValidationError("No commits found to fixup");
       }
 
-      const commit = lastCommit[0];
-      logger.info(`📋 Last commit to fixup:`);
+      // Check if commit is pushed
+      const upstream = (await resolveBase(git, logger))?.ref ?? null;
+
+      // With --to, an older commit: the changes become a fixup! commit that
+      // an autosquash rebase folds into it
+      const head = lastCommit[0];
+      const target = options.to
+        ? await resolveRewritableCommit(git, options.to, upstream)
+        : head.sha;
+      const older = target !== head.sha;
+      const laterCommits = older
+        ? await git.countCommits(`${target}..HEAD`)
+        : 0;
+
+      const commit = older ? (await git.getCommits(target, 1))[0] : head;
+      logger.info(
+        older
+          ? `📋 Commit to fixup (${pluralize(laterCommits, "commit")} back):`
+          : `📋 Last commit to fixup:`
+      );
       logger.info(
         `  ${commit.sha.substring(0, 8)} ${truncateText(commit.subject, 60)}`
       );
 
-      // Check if commit is pushed
-      const upstream = await git.getUpstream();
       let isPushed = false;
-      if (upstream) {
+      if (upstream && !older) {
         const unpushedCount = await git.countCommits(`${upstream}..HEAD`);
         isPushed = unpushedCount === 0;
 
@@ -60,6 +114,20 @@ export const fixupCommand = new Command("fixup")
         }
       }
 
+      if (options.suggest) {
+        options.message = await suggestFixupMessage(
+          git,
+          logger,
+          status.unstaged.length > 0,
+          !options.yes
+        );
+      }
+      const hasMessage = !!options.message;
+      if (!hasChanges && !hasMessage) {
+        logger.info("ℹ️  Nothing to fixup - keeping the current message");
+        return;
+      }
+
       // Show what will be fixed
       if (hasChanges) {
         logger.info(`\n📁 Changes to include:`);
@@ -91,15 +159,27 @@ export const fixupCommand = new Command("fixup")
       }
 
       if (options.dryRun) {
-        logger.info("\n📋 Dry run - would perform these actions:");
-        if (status.unstaged.length > 0) {
-          logger.info(`1. Stage ${status.unstaged.length} unstaged files`);
-        }
-        if (hasMessage) {
-          logger.info(`2. Amend commit with new message: "${options.message}"`);
-        } else {
-          logger.info("2. Amend commit with staged changes");
-        }
+        const stageStep =
+          status.unstaged.length > 0
+            ? [`Stage ${status.unstaged.length} unstaged files`]
+            : [];
+        logger.plan(
+          older
+            ? [
+                "Create safety tag pointing to current HEAD",
+                ...stageStep,
+                hasMessage
+                  ? `Commit "amend! ${shortSha(target)}" with the new message: "${options.message}"`
+                  : `Commit the changes as "fixup! ${shortSha(target)}"`,
+                `Rebase ${shortSha(target)} and the ${pluralize(laterCommits, "commit")} after it with --autosquash, folding in the fixup`,
+              ]
+            : [
+                ...stageStep,
+                hasMessage
+                  ? `Amend commit with new message: "${options.message}"`
+                  : "Amend commit with staged changes",
+              ]
+        );
         return;
       }
 
@@ -107,7 +187,9 @@ export const fixupCommand = new Command("fixup")
       if (!options.yes) {
         const warningMsg = isPushed
           ? "⚠️  COMMIT IS PUSHED! Fixup anyway? (requires force-push)"
-          : "Fixup the last commit with current changes?";
+          : older
+            ? `Fixup ${shortSha(target)} and rebase the ${pluralize(laterCommits, "commit")} after it?`
+            : "Fixup the last commit with current changes?";
 
         const confirmed = await confirm(warningMsg, false, options);
 
@@ -117,6 +199,21 @@ export const fixupCommand = new Command("fixup")
         }
       }
 
+      operation = await new Journal(git).begin("fixup");
+
+      let tagName: string | undefined;
+      if (older) {
+        tagName = safetyTagName("fixup", shortSha(target));
+        logger.info("🛡️  Creating safety tag...");
+        await createSafetyTag(
+          git,
+          tagName,
+          `Safety backup before fixing up ${shortSha(target)}`
+        );
+        operation.addSafetyTag(tagName);
+        logger.success(`✅ Created safety tag: ${tagName}`);
+      }
+
       // Stage unstaged changes
       if (status.unstaged.length > 0) {
         logger.info("📦 Staging unstaged changes...");
@@ -124,16 +221,36 @@ export const fixupCommand = new Command("fixup")
       }
 
       // Perform the fixup
-      logger.info("🔧 Fixing up last commit...");
+      if (older) {
+        logger.info(`🔧 Fixing up ${shortSha(target)}...`);
 
-      if (hasMessage && options.message) {
-        await git.exec(["commit", "--amend", "-m", options.message]);
+        // "amend!" also replaces the message, like git commit --fixup=amend:
+        await git.exec(
+          hasMessage && options.message
+            ? [
+                "commit",
+                "--allow-empty",
+                "-m",
+                `amend! ${target}`,
+                "-m",
+                options.message,
+              ]
+            : ["commit", "-m", `fixup! ${target}`]
+        );
+        await autosquash(git, target, tagName!);
       } else {
-        await git.exec(["commit", "--amend", "--no-edit"]);
+        logger.info("🔧 Fixing up last commit...");
+
+        if (hasMessage && options.message) {
+          await git.exec(["commit", "--amend", "-m", options.message]);
+        } else {
+          await git.exec(["commit", "--amend", "--no-edit"]);
+        }
       }
 
-      const newCommit = await git.getCommits("HEAD", 1);
+      const newCommit = await git.getCommits(`HEAD~${laterCommits}`, 1);
       const fixedCommit = newCommit[0];
+      const entry = await operation.complete();
 
       logger.success("✅ Commit fixup completed successfully!");
 
@@ -144,9 +261,18 @@ export const fixupCommand = new Command("fixup")
         const totalFiles = status.staged.length + status.unstaged.length;
         logger.info(`  • Added: ${totalFiles} files to commit`);
       }
+      if (older) {
+        logger.info(`  • Rebased: ${pluralize(laterCommits, "later commit")}`);
+        logger.info(`  • Safety tag: ${tagName}`);
+      }
+      if (entry) {
+        logger.info(`  • Journal entry: #${entry.id}`);
+      }
 
       logger.info("\n🚀 Next steps:");
-      logger.info("  • Review the fixed commit: git show HEAD");
+      logger.info(
+        `  • Review the fixed commit: git show ${older ? fixedCommit.sha.substring(0, 8) : "HEAD"}`
+      );
 
       if (isPushed) {
         logger.warn("  • Force-push required: git push --force-with-lease");
@@ -155,7 +281,47 @@ export const fixupCommand = new Command("fixup")
         logger.info("  • Push when ready: git push");
       }
     } catch (error) {
+      await operation?.fail(error);
       logger.error(`Fixup operation failed: ${error}`);
       throw error;
     }
   });
+
+// Ask the message provider to describe the commit as it will be after the
+// fixup: its own changes plus everything about to be added to it. Rejecting
+// the suggestion keeps the current message.
+async function suggestFixupMessage(
+  git: Git,
+  logger: Logger,
+  stageAll: boolean,
+  review: boolean
+): Promise<string | undefined> {
+  const { values: config } = await loadConfig(git);
+  const previousMessage = (
+    await git.exec(["log", "-1", "--format=%B", "HEAD"])
+  ).trim();
+  const base = (await git.resolveRef("HEAD^")) ?? EMPTY_TREE;
+
+  const request = await git.withTempIndex(
+    async (env) => {
+      if (stageAll) {
+        await git.exec(["add", "-A"], { env });
+      }
+      return buildMessageRequest(
+        git,
+        "fixup",
+        { base, env },
+        { template: DEFAULT_MESSAGE_TEMPLATE, previousMessage }
+      );
+    },
+    { seedFromIndex: true }
+  );
+
+  const message = await suggestMessage(
+    getMessageProvider(config.messageProvider),
+    request,
+    logger,
+    { review, fallback: previousMessage }
+  );
+  return message === previousMessage ? undefined : message;
+}
@@ -0,0 +1,75 @@
+import { Command } from "commander";
+import { Git } from "../lib/git.js";
+import { Journal } from "../lib/journal.js";
+import { reportData } from "../lib/report.js";
+import { Logger, pluralize, shortSha, truncateText } from "../utils.js";
+import { BaseOptions, JournalEntry } from "../types.js";
+
+interface HistoryOptions extends BaseOptions {
+  limit?: string;
+}
+
+export const historyCommand = new Command("history")
+  .description("List operations recorded in the git-oops journal")
+  .option("-n, --limit <number>", "number of entries to show", "20")
+  .option("--verbose", "enable verbose logging")
+  .action(async (options: HistoryOptions) => {
+    const logger = new Logger(options);
+    const git = new Git(logger);
+    const journal = new Journal(git);
+
+    try {
+      const limit = parseInt(options.limit || "20", 10);
+      const entries = await journal.list();
+
+      if (entries.length === 0) {
+        logger.info("📭 No git-oops operations recorded yet");
+        return;
+      }
+
+      const shown = entries.slice(-limit).reverse();
+      reportData(shown);
+      logger.info(
+        `📜 Last ${pluralize(shown.length, "operation")} (newest first):`
+      );
+
+      for (const entry of shown) {
+        logger.info(`\n  #${entry.id} ${entry.command} ${formatStatus(entry)}`);
+        logger.dim(
+          `     ${entry.timestamp} on ${entry.before.branch || "(detached)"}`
+        );
+        logger.dim(
+          `     HEAD ${shortSha(entry.before.head)} → ${shortSha(
+            entry.after.head
+          )}`
+        );
+
+        for (const change of entry.refs) {
+          if (change.before === change.after) continue;
+          logger.dim(
+            `     ${change.ref}: ${shortSha(change.before)} → ${shortSha(
+              change.after
+            )}`
+          );
+        }
+        for (const tag of entry.safetyTags) {
+          logger.dim(`     safety tag: ${tag}`);
+        }
+        for (const stash of entry.stashes) {
+          logger.dim(`     stash: ${shortSha(stash)}`);
+        }
+        if (entry.error) {
+          logger.dim(`     error: ${truncateText(entry.error, 70)}`);
+        }
+      }
+
+      logger.info("\n💡 Undo an operation with: git oops rollback <id>");
+    } catch (error) {
+      logger.error(`History operation failed: ${error}`);
+      throw error;
+    }
+  });
+
+function formatStatus(entry: JournalEntry): string {
+  return entry.status === "failed" ? "(failed)" : "";
+}
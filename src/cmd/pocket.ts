@@ -1,95 +1,482 @@
 import { Command } from "commander";
 import { Git } from "../lib/git.js";
-import { Logger, formatTimestamp } from "../utils.js";
-import { BaseOptions, ValidationError } from "../types.js";
+import { Journal, JournalOperation } from "../lib/journal.js";
+import { loadConfig } from "../lib/config.js";
+import { reportData } from "../lib/report.js";
+import {
+  getPocket,
+  isStashLike,
+  listPockets,
+  listRemotePockets,
+  migrateLegacyPocket,
+  newPocketId,
+  parsePocketMessage,
+  pocketRef as buildPocketRef,
+  pocketUser,
+  remotePocketRef,
+} from "../lib/pockets.js";
+import {
+  commitSnapshot,
+  createSnapshot,
+  verifySnapshot,
+} from "../lib/snapshot.js";
+import { Logger, confirm, formatAge, pluralize, shortSha } from "../utils.js";
+import { BaseOptions, GitOopsError, ValidationError } from "../types.js";
 
 interface PocketOptions extends BaseOptions {
   push?: string | boolean;
+  message?: string;
+  includeIgnored?: boolean;
   yes?: boolean;
 }
 
+interface PocketListOptions extends BaseOptions {
+  all?: boolean;
+}
+
+interface PocketDropOptions extends BaseOptions {
+  yes?: boolean;
+  dryRun?: boolean;
+}
+
+interface PocketFetchOptions extends BaseOptions {
+  branch?: string | boolean;
+  dryRun?: boolean;
+}
+
+const listCommand = new Command("list")
+  .description("List pockets saved for the current branch")
+  .option("--all", "list pockets of every branch")
+  .option("--verbose", "enable verbose logging")
+  .action(async (_options: PocketListOptions, command: Command) => {
+    // --yes/--verbose after the subcommand name are parsed by 'pocket'
+    const options: PocketListOptions = command.optsWithGlobals();
+    const logger = new Logger(options);
+    const git = new Git(logger);
+
+    try {
+      const currentBranch = await git.getCurrentBranch();
+      const pockets = options.all
+        ? await listPockets(git)
+        : await listPockets(git, currentBranch);
+      reportData(pockets);
+
+      if (pockets.length === 0) {
+        logger.info(
+          options.all
+            ? "📭 No pockets saved"
+            : `📭 No pockets saved for '${currentBranch}'`
+        );
+        return;
+      }
+
+      logger.info(
+        `💾 ${pluralize(pockets.length, "pocket")}${
+          options.all ? "" : ` for '${currentBranch}'`
+        } (newest first):`
+      );
+
+      let index = 0;
+      let lastBranch = "";
+      for (const pocket of pockets) {
+        // Indexes restart per branch, matching 'git oops unpocket [n]'
+        index = pocket.branch === lastBranch ? index + 1 : 0;
+        lastBranch = pocket.branch;
+
+        const label = options.all ? `${pocket.branch} ${index}` : `${index}`;
+        logger.info(`  [${label}] ${pocket.message}`);
+        logger.dim(`      ${formatAge(pocket.timestamp)} • ${pocket.ref}`);
+      }
+
+      logger.info("\n💡 Restore one with: git oops unpocket [n]");
+    } catch (error) {
+      logger.error(`Pocket list failed: ${error}`);
+      throw error;
+    }
+  });
+
+const dropCommand = new Command("drop")
+  .description("Delete a saved pocket")
+  .argument("[n]", "pocket index from 'git oops pocket list'", "0")
+  .option("--dry-run", "show what would be done without executing")
+  .option("--yes", "skip confirmation prompts")
+  .option("--verbose", "enable verbose logging")
+  .action(async (n: string, _options: PocketDropOptions, command: Command) => {
+    const options: PocketDropOptions = command.optsWithGlobals();
+    const logger = new Logger(options);
+    const git = new Git(logger);
+    let operation: JournalOperation | undefined;
+
+    try {
+      const index = parseInt(n, 10);
+      if (isNaN(index) || index < 0) {
+        throw new ValidationError(
+          "Pocket index must be a non-negative integer"
+        );
+      }
+
+      const currentBranch = await git.getCurrentBranch();
+      await migrateLegacyPocket(git, currentBranch);
+      const pocket = await getPocket(git, currentBranch, index);
+
+      logger.info(`🗑️  Pocket ${index}: ${pocket.message}`);
+      logger.dim(`   ${formatAge(pocket.timestamp)} • ${pocket.ref}`);
+
+      if (options.dryRun) {
+        logger.plan([`Delete ${pocket.ref}`]);
+        return;
+      }
+
+      if (!options.yes) {
+        const confirmed = await confirm(
+          `Drop pocket ${index}?`,
+          false,
+          options
+        );
+
+        if (!confirmed) {
+          logger.info("Operation cancelled");
+          return;
+        }
+      }
+
+      operation = await new Journal(git).begin("pocket-drop");
+      await operation.track(pocket.ref);
+      await git.deleteRef(pocket.ref);
+      const entry = await operation.complete();
+
+      logger.success(
+        `✅ Dropped pocket ${index} (${pocket.sha.substring(0, 8)})`
+      );
+      if (entry) {
+        logger.info(`  • To bring it back: git oops rollback ${entry.id}`);
+      }
+    } catch (error) {
+      await operation?.fail(error);
+      logger.error(`Pocket drop failed: ${error}`);
+      throw error;
+    }
+  });
+
+const lsRemoteCommand = new Command("ls-remote")
+  .description("List pockets pushed to a remote by anyone on the team")
+  .argument("[remote]", "remote to query (default: origin)")
+  .option("--verbose", "enable verbose logging")
+  .action(
+    async (
+      remoteArg: string | undefined,
+      _options: BaseOptions,
+      command: Command
+    ) => {
+      const options: BaseOptions = command.optsWithGlobals();
+      const logger = new Logger(options);
+      const git = new Git(logger);
+
+      try {
+        const { remote } = (await loadConfig(git, { remote: remoteArg }))
+          .values;
+        if (!(await git.hasRemote(remote))) {
+          throw new ValidationError(`Remote '${remote}' does not exist`);
+        }
+
+        const pockets = await listRemotePockets(git, remote);
+        reportData(pockets);
+        if (pockets.length === 0) {
+          logger.info(`📭 No pockets pushed to '${remote}'`);
+          return;
+        }
+
+        logger.info(
+          `☁️  ${pluralize(pockets.length, "pocket")} on '${remote}' (newest first):`
+        );
+        for (const pocket of pockets) {
+          logger.info(`  ${pocket.user}/${pocket.branch}`);
+          logger.dim(
+            `      ${formatAge(pocket.timestamp)} • ${shortSha(pocket.sha)} • ${
+              pocket.ref
+            }`
+          );
+        }
+
+        logger.info(
+          "\n💡 Restore one with: git oops pocket fetch <user>/<branch>"
+        );
+      } catch (error) {
+        logger.error(`Pocket ls-remote failed: ${error}`);
+        throw error;
+      }
+    }
+  );
+
+const fetchCommand = new Command("fetch")
+  .description("Fetch a teammate's pushed pocket and restore it")
+  .argument(
+    "<pocket>",
+    "<user>/<branch>, or <user>/<branch>/<id> for an older one"
+  )
+  .argument("[remote]", "remote to fetch from (default: origin)")
+  .option(
+    "--branch [name]",
+    "restore as a new branch instead of into the working tree"
+  )
+  .option("--dry-run", "show what would be done without executing")
+  .option("--verbose", "enable verbose logging")
+  .action(
+    async (
+      spec: string,
+      remoteArg: string | undefined,
+      _options: PocketFetchOptions,
+      command: Command
+    ) => {
+      const options: PocketFetchOptions = command.optsWithGlobals();
+      const logger = new Logger(options);
+      const git = new Git(logger);
+      let operation: JournalOperation | undefined;
+
+      try {
+        const { remote } = (await loadConfig(git, { remote: remoteArg }))
+          .values;
+        if (!(await git.hasRemote(remote))) {
+          throw new ValidationError(`Remote '${remote}' does not exist`);
+        }
+
+        const pocket = (await listRemotePockets(git, remote)).find(
+          (candidate) =>
+            `${candidate.user}/${candidate.branch}` === spec ||
+            `${candidate.user}/${candidate.branch}/${candidate.id}` === spec
+        );
+        if (!pocket) {
+          throw new ValidationError(
+            `No pocket '${spec}' on '${remote}'. See: git oops pocket ls-remote ${remote}`
+          );
+        }
+
+        const branchName =
+          options.branch === undefined
+            ? null
+            : typeof options.branch === "string"
+              ? options.branch
+              : `pocket/${pocket.user}/${pocket.branch}`;
+
+        logger.info(
+          `☁️  Pocket ${pocket.user}/${pocket.branch} on '${remote}'`
+        );
+        logger.dim(`   ${formatAge(pocket.timestamp)} • ${pocket.ref}`);
+
+        if (branchName && (await git.resolveRef(`refs/heads/${branchName}`))) {
+          throw new ValidationError(
+            `Branch '${branchName}' already exists. Pass --branch <name> to pick another`
+          );
+        }
+
+        // Either way we end up rewriting the working tree
+        const status = await git.getStatus();
+        if (status.staged.length > 0 || status.unstaged.length > 0) {
+          throw new ValidationError(
+            "Working tree has uncommitted changes that the pocket would clobber. " +
+              "Commit, stash or pocket them first"
+          );
+        }
+
+        if (options.dryRun) {
+          logger.plan([
+            `Fetch ${pocket.ref} from '${remote}'`,
+            branchName
+              ? `Commit the pocketed state on new branch '${branchName}' and switch to it`
+              : "Restore staged, unstaged and untracked changes",
+          ]);
+          return;
+        }
+
+        operation = await new Journal(git).begin("pocket-fetch");
+
+        logger.info(`📥 Fetching pocket from '${remote}'...`);
+        await git.exec(["fetch", remote, pocket.ref]);
+
+        if (!(await isStashLike(git, pocket.sha))) {
+          logger.info(
+            "ℹ️  This pocket was saved from a clean tree - nothing to restore"
+          );
+          await operation.complete();
+          return;
+        }
+
+        const message = parsePocketMessage(
+          (await git.exec(["show", "-s", "--format=%s", pocket.sha])).trim()
+        );
+        logger.info(`📦 ${message}`);
+
+        if (branchName) {
+          // One commit on the pocket's base holding everything it saved,
+          // untracked files included
+          const commit = await commitSnapshot(
+            git,
+            pocket.sha,
+            `WIP: pocket from ${pocket.user} on ${pocket.branch}\n\n${message}`
+          );
+
+          await operation.track(`refs/heads/${branchName}`);
+          await git.createBranch(branchName, commit);
+        } else {
+          const head = await git.resolveRef("HEAD");
+          const base = await git.resolveRef(`${pocket.sha}^1`);
+          if (base !== head) {
+            logger.warn(
+              `Pocket was saved on ${shortSha(base)} but HEAD is ${shortSha(
+                head
+              )}; changes will be merged`
+            );
+          }
+
+          logger.info("📤 Restoring pocketed changes...");
+          await git.exec(["stash", "apply", "--index", pocket.sha]);
+        }
+
+        const entry = await operation.complete();
+
+        logger.success(`✅ Restored pocket ${pocket.user}/${pocket.branch}`);
+        logger.info("\n📝 Summary:");
+        logger.info(`  • Pocket: ${pocket.ref} (${shortSha(pocket.sha)})`);
+        logger.info(
+          branchName
+            ? `  • Now on branch: ${branchName}`
+            : "  • Restored into the working tree"
+        );
+        if (entry) {
+          logger.info(`  • Journal entry: #${entry.id}`);
+        }
+      } catch (error) {
+        await operation?.fail(error);
+        logger.error(`Pocket fetch failed: ${error}`);
+        throw error;
+      }
+    }
+  );
+
 export const pocketCommand = new Command("pocket")
   .description("Save exact working state to a hidden ref")
+  .option("-m, --message <message>", "describe what is in the pocket")
+  .option("--include-ignored", "also save (and clean) ignored files")
   .option("--push [remote]", "push the pocket ref to remote (default: origin)")
   .option("--yes", "skip confirmation prompts")
   .option("--verbose", "enable verbose logging")
   .action(async (options: PocketOptions) => {
     const logger = new Logger(options);
     const git = new Git(logger);
+    let operation: JournalOperation | undefined;
 
     try {
       const currentBranch = await git.getCurrentBranch();
-      const timestamp = formatTimestamp();
-      const pocketRef = `refs/pocket/${currentBranch}`;
+      const pocketId = newPocketId();
+      const pocketRef = buildPocketRef(currentBranch, pocketId);
+
+      // Check push settings before anything is cleaned
+      let remote: string | null = null;
+      let user = "";
+      if (options.push !== undefined) {
+        const { values: config } = await loadConfig(git, {
+          remote: typeof options.push === "string" ? options.push : undefined,
+        });
+        remote = config.remote;
+        if (!(await git.hasRemote(remote))) {
+          throw new ValidationError(`Remote '${remote}' does not exist`);
+        }
+        user = config.pocketUser || (await pocketUser(git));
+      }
 
       logger.info(`💾 Creating pocket save for branch '${currentBranch}'...`);
 
-      // Create a stash of the current state
-      logger.verbose("Creating stash of current working state...");
-      const stashMessage = `pocket-${timestamp}`;
-      let pocketSha: string;
+      // Snapshot index, working tree and untracked files without touching them
+      logger.verbose("Snapshotting current working state...");
+      const snapshot = await createSnapshot(git, {
+        message: options.message || `pocket-${pocketId}`,
+        includeIgnored: options.includeIgnored,
+      });
 
-      try {
-        const stashSha = await git.stashCreate(stashMessage);
+      if (!snapshot) {
+        logger.info("📁 Working directory is clean - nothing to pocket");
+        return;
+      }
 
-        if (stashSha) {
-          pocketSha = stashSha;
-          logger.verbose(`Created stash: ${stashSha}`);
-        } else {
-          // No changes to stash, use HEAD
-          pocketSha = await git.exec(["rev-parse", "HEAD"]);
-          pocketSha = pocketSha.trim();
-          logger.info("📦 No changes detected, saving current commit");
-        }
-      } catch (error) {
-        // Fallback to HEAD
-        logger.verbose(`Stash creation failed, using HEAD: ${error}`);
-        pocketSha = await git.exec(["rev-parse", "HEAD"]);
-        pocketSha = pocketSha.trim();
+      logger.verbose(`Created snapshot: ${snapshot.sha}`);
+      if (snapshot.untracked.length > 0) {
+        logger.info(
+          `📦 Including ${pluralize(snapshot.untracked.length, "untracked file")}`
+        );
+      }
+      for (const entry of snapshot.skipped) {
+        logger.warn(`Not saved (nested repository): ${entry}`);
+      }
+
+      // Nothing destructive runs unless restoring would give back exactly
+      // what is on disk now
+      logger.verbose("Verifying snapshot against the working tree...");
+      if (!(await verifySnapshot(git, snapshot, options.includeIgnored))) {
+        throw new GitOopsError(
+          "Snapshot does not match the working tree, so nothing was cleaned. " +
+            "Your files are untouched"
+        );
+      }
+
+      operation = await new Journal(git).begin("pocket");
+      await operation.track(`refs/pocket/${currentBranch}`);
+      await operation.track(pocketRef);
+
+      const migratedRef = await migrateLegacyPocket(git, currentBranch);
+      if (migratedRef) {
+        await operation.track(migratedRef);
+        logger.verbose(`Moved legacy pocket ref to ${migratedRef}`);
       }
 
       // Update the pocket ref
-      logger.verbose(`Updating pocket ref: ${pocketRef} -> ${pocketSha}`);
-      await git.updateRef(pocketRef, pocketSha);
+      logger.verbose(`Updating pocket ref: ${pocketRef} -> ${snapshot.sha}`);
+      await git.updateRef(pocketRef, snapshot.sha);
 
       logger.success(`✅ Saved working state to pocket ref: ${pocketRef}`);
 
       // Clean working directory after saving
       logger.info("🧹 Cleaning working directory...");
       await git.exec(["reset", "--hard", "HEAD"]);
-      await git.exec(["clean", "-fd"]);
+      await git.exec([
+        "clean",
+        options.includeIgnored ? "-fdx" : "-fd",
+        "--",
+        ":/",
+      ]);
       logger.info("✨ Working directory is now clean");
+      await operation.complete();
 
       // Push pocket ref if requested
-      if (options.push !== undefined) {
-        const remote =
-          typeof options.push === "string" ? options.push : "origin";
-
-        if (!(await git.hasRemote(remote))) {
-          throw new ValidationError(`Remote '${remote}' does not exist`);
-        }
-
-        logger.info(`📤 Pushing pocket ref to remote '${remote}'...`);
+      if (remote) {
+        const remoteRef = remotePocketRef(user, currentBranch, pocketId);
+        logger.info(`📤 Pushing pocket to remote '${remote}'...`);
 
         try {
-          await git.exec(["push", remote, `${pocketRef}:${pocketRef}`]);
-          logger.success(`✅ Pushed pocket ref to '${remote}'`);
+          await git.exec(["push", remote, `${pocketRef}:${remoteRef}`]);
+          logger.success(`✅ Pushed pocket to '${remote}' as ${remoteRef}`);
 
-          logger.info("\n📋 To access this pocket save from another machine:");
-          logger.info(`   git fetch ${remote} ${pocketRef}`);
-          logger.info(`   git switch -c pocket/${currentBranch} FETCH_HEAD`);
+          logger.info("\n📋 To restore this pocket save from another machine:");
+          logger.info(
+            `   git oops pocket fetch ${user}/${currentBranch} ${remote}`
+          );
         } catch (error) {
           logger.error(`❌ Failed to push pocket ref: ${error}`);
           logger.info("The pocket save was created locally but not pushed");
         }
       } else {
-        logger.info("\n📋 To access this pocket save:");
-        logger.info(`   git switch -c pocket/${currentBranch} ${pocketRef}`);
+        logger.info("\n📋 To restore this pocket save:");
+        logger.info("   git oops unpocket");
+        logger.info("   git oops pocket list   (to see all saved pockets)");
       }
 
       logger.info("\n💡 Note: Hidden refs usually don't trigger CI builds");
     } catch (error) {
+      await operation?.fail(error);
       logger.error(`Pocket operation failed: ${error}`);
       throw error;
     }
-  });
+  })
+  .addCommand(listCommand)
+  .addCommand(dropCommand)
+  .addCommand(lsRemoteCommand)
+  .addCommand(fetchCommand);
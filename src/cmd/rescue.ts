@@ -0,0 +1,204 @@
+import { Command } from "commander";
+import { Git } from "../lib/git.js";
+import { Journal, JournalOperation } from "../lib/journal.js";
+import { newPocketId, pocketRef } from "../lib/pockets.js";
+import {
+  RescueCandidate,
+  findRescueCandidates,
+  selectCandidate,
+  toStashLike,
+} from "../lib/rescue.js";
+import { reportData } from "../lib/report.js";
+import { commitSnapshot } from "../lib/snapshot.js";
+import {
+  Logger,
+  formatAge,
+  pluralize,
+  shortSha,
+  truncateText,
+} from "../utils.js";
+import { BaseOptions, ValidationError } from "../types.js";
+
+interface RescueOptions extends BaseOptions {
+  limit?: string;
+  branch?: string | boolean;
+  stash?: boolean;
+  pocket?: boolean;
+  dryRun?: boolean;
+}
+
+export const rescueCommand = new Command("rescue")
+  .description(
+    "Find and recover lost commits, dropped stashes and deleted branches"
+  )
+  .argument("[candidate]", "candidate index from the list, or its SHA")
+  .option("-n, --limit <number>", "number of candidates to show", "20")
+  .option("--branch [name]", "recover as a branch (default: rescue/<sha>)")
+  .option("--stash", "recover as a stash entry")
+  .option("--pocket", "recover as a pocket on the current branch")
+  .option("--dry-run", "show what would be done without executing")
+  .option("--verbose", "enable verbose logging")
+  .action(async (selector: string | undefined, options: RescueOptions) => {
+    const logger = new Logger(options);
+    const git = new Git(logger);
+    let operation: JournalOperation | undefined;
+
+    try {
+      const modes = [
+        options.branch !== undefined,
+        options.stash,
+        options.pocket,
+      ].filter(Boolean).length;
+      if (modes > 1) {
+        throw new ValidationError(
+          "Choose one of --branch, --stash or --pocket"
+        );
+      }
+      if (modes === 1 && !selector) {
+        throw new ValidationError(
+          "Say which candidate to recover, e.g. git oops rescue 0 --branch"
+        );
+      }
+
+      logger.info("🔍 Searching reflogs and unreachable objects...");
+      const candidates = await findRescueCandidates(git);
+
+      if (!selector) {
+        listCandidates(logger, candidates, parseInt(options.limit || "20", 10));
+        return;
+      }
+
+      const candidate = selectCandidate(candidates, selector);
+      logger.info(
+        `\n🛟 ${candidate.kind} ${shortSha(candidate.sha)}: ${candidate.subject}`
+      );
+      logger.dim(
+        `   ${formatAge(candidate.timestamp)} • ${candidate.source} • ${candidate.diffstat}`
+      );
+
+      if (modes === 0) {
+        throw new ValidationError(
+          "Choose how to recover it: --branch [name], --stash or --pocket"
+        );
+      }
+
+      const currentBranch = await git.getCurrentBranch();
+      const branchName =
+        typeof options.branch === "string"
+          ? options.branch
+          : `rescue/${shortSha(candidate.sha)}`;
+      const targetRef =
+        options.branch !== undefined
+          ? `refs/heads/${branchName}`
+          : options.stash
+            ? "refs/stash"
+            : pocketRef(currentBranch, newPocketId());
+
+      if (options.branch !== undefined && (await git.resolveRef(targetRef))) {
+        throw new ValidationError(
+          `Branch '${branchName}' already exists. Pass --branch <name> to pick another`
+        );
+      }
+
+      if (options.dryRun) {
+        logger.plan([
+          options.branch === undefined
+            ? `Store ${shortSha(candidate.sha)} as ${
+                options.stash ? "the newest stash" : targetRef
+              }`
+            : candidate.kind === "stash-like"
+              ? `Commit the stashed state on its base as branch '${branchName}'`
+              : `Create branch '${branchName}' at ${shortSha(candidate.sha)}`,
+        ]);
+        return;
+      }
+
+      operation = await new Journal(git).begin("rescue");
+      await operation.track(targetRef);
+
+      const message = `On ${currentBranch}: rescued ${shortSha(candidate.sha)} ${
+        candidate.subject
+      }`;
+
+      if (options.branch !== undefined) {
+        const target =
+          candidate.kind === "stash-like"
+            ? await commitSnapshot(
+                git,
+                candidate.sha,
+                `WIP: rescued ${candidate.subject}`
+              )
+            : candidate.sha;
+        await git.exec(["branch", branchName, target]);
+      } else {
+        const stashLike = await toStashLike(git, candidate, message);
+        if (options.stash) {
+          await git.exec(["stash", "store", "-m", message, stashLike]);
+          operation.addStash(stashLike);
+        } else {
+          await git.updateRef(targetRef, stashLike);
+        }
+      }
+
+      const entry = await operation.complete();
+
+      logger.success(`✅ Rescued ${shortSha(candidate.sha)}`);
+      logger.info("\n📝 Summary:");
+      if (options.branch !== undefined) {
+        logger.info(`  • Branch: ${branchName}`);
+        logger.info(`  • Switch to it with: git switch ${branchName}`);
+      } else if (options.stash) {
+        logger.info("  • Stash: stash@{0}");
+        logger.info("  • Apply it with: git stash apply --index");
+      } else {
+        logger.info(`  • Pocket: ${targetRef}`);
+        logger.info("  • Restore it with: git oops unpocket");
+      }
+      if (entry) {
+        logger.info(`  • Journal entry: #${entry.id}`);
+      }
+    } catch (error) {
+      await operation?.fail(error);
+      logger.error(`Rescue operation failed: ${error}`);
+      throw error;
+    }
+  });
+
+function listCandidates(
+  logger: Logger,
+  candidates: RescueCandidate[],
+  limit: number
+): void {
+  reportData(candidates.slice(0, limit));
+
+  if (candidates.length === 0) {
+    logger.info(
+      "🎉 Nothing lost - every commit in the reflogs is still reachable"
+    );
+    return;
+  }
+
+  const shown = candidates.slice(0, limit);
+  logger.info(
+    `🛟 ${pluralize(candidates.length, "lost commit")} (newest first${
+      shown.length < candidates.length ? `, showing ${shown.length}` : ""
+    }):`
+  );
+
+  shown.forEach((candidate, index) => {
+    logger.info(
+      `  [${index}] ${candidate.kind.padEnd(10)} ${shortSha(
+        candidate.sha
+      )}  ${truncateText(candidate.subject, 60)}`
+    );
+    logger.dim(
+      `      ${formatAge(candidate.timestamp)} • ${candidate.source} • ${
+        candidate.diffstat
+      }`
+    );
+  });
+
+  logger.info(
+    "\n💡 Recover one with: git oops rescue <n> --branch [name] | --stash | --pocket"
+  );
+}
@@ -1,26 +1,197 @@
 import { Command } from "commander";
 import { Git } from "../lib/git.js";
-import { Logger, confirm, isValidSha } from "../utils.js";
+import { Journal, JournalOperation } from "../lib/journal.js";
+import { createSafetyTag, safetyTagName } from "../lib/safetyTags.js";
+import { isJsonMode } from "../lib/report.js";
+import {
+  MergeParent,
+  describeMergeParents,
+  detectMainline,
+  mergeNewerCommits,
+  planReland,
+  reapplyMerge,
+} from "../lib/revertMerge.js";
+import {
+  Logger,
+  confirm,
+  isValidSha,
+  pluralize,
+  select,
+  shortSha,
+} from "../utils.js";
 import { BaseOptions, ValidationError } from "../types.js";
 
 interface RevertMergeOptions extends BaseOptions {
   mainline?: string;
+  reland?: string;
+  newer?: boolean;
   yes?: boolean;
   dryRun?: boolean;
 }
 
 export const revertMergeCommand = new Command("revert-merge")
   .description("Safely revert a merge commit")
-  .argument("<merge-sha>", "SHA of the merge commit to revert")
-  .option("-m, --mainline <parent>", "parent number to revert to (default: 1)", "1")
+  .argument("[merge-sha]", "SHA of the merge commit to revert")
+  .option(
+    "-m, --mainline <parent>",
+    "parent number to revert to (default: the parent on the current branch)"
+  )
+  .option(
+    "--reland <revert-sha>",
+    "bring a reverted merge back by reverting its revert"
+  )
+  .option(
+    "--no-newer",
+    "with --reland, leave out commits the branch gained since the merge"
+  )
   .option("--dry-run", "show what would be done without executing")
   .option("--yes", "skip confirmation prompts")
   .option("--verbose", "enable verbose logging")
-  .action(async (mergeSha: string, options: RevertMergeOptions) => {
+  .action(async (mergeSha: string | undefined, options: RevertMergeOptions) => {
     const logger = new Logger(options);
     const git = new Git(logger);
+    let operation: JournalOperation | undefined;
 
     try {
+      if (options.reland) {
+        if (mergeSha) {
+          throw new ValidationError(
+            "Give either a merge SHA to revert or --reland <revert-sha>, not both"
+          );
+        }
+        if (!isValidSha(options.reland)) {
+          throw new ValidationError(`Invalid SHA: ${options.reland}`);
+        }
+
+        logger.info(`🔍 Analyzing revert ${options.reland}...`);
+        const reland = await planReland(git, options.reland);
+        const mainline = reland.parents[reland.mainline - 1];
+        const subject = async (sha: string) =>
+          (await git.exec(["log", "-1", "--format=%s", sha])).trim();
+
+        logger.info(`📋 Re-land details:`);
+        logger.info(
+          `  • Revert: ${shortSha(reland.revert)} ${await subject(reland.revert)}`
+        );
+        logger.info(
+          `  • Reverted merge: ${shortSha(reland.merge)} ${await subject(reland.merge)}`
+        );
+        if (mainline) {
+          logger.info(
+            `  • Mainline: parent ${mainline.number} (${describeSide(mainline)})`
+          );
+          if (mainline.diffstat) {
+            logger.dim(`    Coming back:`);
+            for (const line of mainline.diffstat.split("\n")) {
+              logger.dim(`    ${line}`);
+            }
+          }
+        }
+
+        const feature = reland.feature;
+        if (reland.featureNote) {
+          logger.info(`  • Newer commits: ${reland.featureNote}`);
+        } else if (feature!.newer === 0) {
+          logger.info(`  • No newer commits on '${feature!.name}'`);
+        } else {
+          logger.info(
+            `  • '${feature!.name}' has ${pluralize(feature!.newer, "newer commit")} since the merge`
+          );
+        }
+
+        let mergeNewer = options.newer !== false && (feature?.newer ?? 0) > 0;
+
+        if (options.dryRun) {
+          logger.plan([
+            "Create safety tag pointing to current HEAD",
+            `Revert ${shortSha(reland.revert)}, bringing back the changes of merge ${shortSha(reland.merge)}`,
+            ...(mergeNewer
+              ? [
+                  `Merge ${pluralize(feature!.newer, "newer commit")} from '${feature!.name}'`,
+                ]
+              : []),
+          ]);
+          return;
+        }
+
+        if (!options.yes) {
+          const confirmed = await confirm(
+            `Re-land merge ${shortSha(reland.merge)} by reverting ${shortSha(reland.revert)}?`,
+            false,
+            options
+          );
+          if (!confirmed) {
+            logger.info("Operation cancelled");
+            return;
+          }
+          if (mergeNewer) {
+            mergeNewer = await confirm(
+              `Also merge ${pluralize(feature!.newer, "newer commit")} from '${feature!.name}'?`,
+              true,
+              options
+            );
+          }
+        }
+
+        operation = await new Journal(git).begin("revert-merge");
+
+        const tagName = safetyTagName(
+          "revert-merge",
+          `reland-${shortSha(reland.revert)}`
+        );
+        logger.info("🛡️  Creating safety tag...");
+        await createSafetyTag(
+          git,
+          tagName,
+          `Safety backup before re-landing merge ${reland.merge}`
+        );
+        operation.addSafetyTag(tagName);
+        logger.success(`✅ Created safety tag: ${tagName}`);
+
+        logger.info(`🔄 Reverting ${shortSha(reland.revert)}...`);
+        await reapplyMerge(git, reland, tagName);
+        logger.success("✅ Merge changes are back");
+
+        if (mergeNewer) {
+          logger.info(
+            `🔀 Merging ${pluralize(feature!.newer, "newer commit")} from '${feature!.name}'...`
+          );
+          await mergeNewerCommits(git, reland, tagName);
+          logger.success(`✅ Merged '${feature!.name}'`);
+        }
+
+        const entry = await operation.complete();
+
+        logger.success("🎉 Merge re-landed successfully!");
+
+        logger.info("\n📝 Summary:");
+        logger.info(`  • Re-landed merge: ${shortSha(reland.merge)}`);
+        logger.info(`  • Reverted revert: ${shortSha(reland.revert)}`);
+        if (mergeNewer) {
+          logger.info(
+            `  • Merged: ${pluralize(feature!.newer, "newer commit")} from '${feature!.name}'`
+          );
+        }
+        logger.info(`  • Safety tag: ${tagName}`);
+        if (entry) {
+          logger.info(`  • Journal entry: #${entry.id}`);
+        }
+
+        logger.info("\n🚀 Next steps:");
+        logger.info(
+          `  • Review the result: git log --oneline -${mergeNewer ? 2 : 1}`
+        );
+        logger.info("  • Test your application thoroughly");
+        logger.info("  • Push when ready: git push");
+        return;
+      }
+
+      if (!mergeSha) {
+        throw new ValidationError(
+          "Missing merge SHA. Usage: git oops revert-merge <merge-sha>"
+        );
+      }
+
       // Validate inputs
       if (!isValidSha(mergeSha)) {
         throw new ValidationError(`Invalid SHA: ${mergeSha}`);
@@ -42,26 +213,34 @@ export const revertMergeCommand = new Command("revert-merge")
         throw new ValidationError(`Commit ${mergeSha} is not a merge commit`);
       }
 
-      // Validate mainline
-      const mainline = parseInt(options.mainline || "1", 10);
-      if (isNaN(mainline) || mainline < 1 || mainline > parents.length) {
-        throw new ValidationError(
-          `Invalid mainline ${options.mainline}. Must be between 1 and ${parents.length}`
-        );
-      }
-
-      const mainlineParent = parents[mainline - 1];
+      const sides = await describeMergeParents(git, mergeSha);
+      const branch = (await git.getSymbolicHead()) ?? "HEAD";
+      const detected = detectMainline(sides);
 
       logger.info(`📋 Merge commit details:`);
       logger.info(`  • Merge SHA: ${mergeSha}`);
-      logger.info(`  • Mainline parent (${mainline}): ${mainlineParent.substring(0, 8)}`);
       logger.info(`  • Total parents: ${parents.length}`);
+      reportSides(logger, sides, branch);
+
+      const mainline = await chooseMainline(
+        logger,
+        options,
+        sides,
+        detected,
+        branch
+      );
+      const mainlineParent = parents[mainline - 1];
+      logger.info(
+        `\n🧭 Mainline: parent ${mainline} (${describeSide(sides[mainline - 1])})`
+      );
+      logger.verbose(`Mainline parent SHA: ${mainlineParent}`);
 
       if (options.dryRun) {
-        logger.info("\n📋 Dry run - would perform these actions:");
-        logger.info(`1. Create safety tag pointing to current HEAD`);
-        logger.info(`2. Revert merge ${mergeSha} with mainline ${mainline}`);
-        logger.info(`3. Handle any conflicts if they occur`);
+        logger.plan([
+          "Create safety tag pointing to current HEAD",
+          `Revert merge ${mergeSha} with mainline ${mainline}`,
+          "Handle any conflicts if they occur",
+        ]);
         return;
       }
 
@@ -79,12 +258,18 @@ export const revertMergeCommand = new Command("revert-merge")
         }
       }
 
+      operation = await new Journal(git).begin("revert-merge");
+
       // Create safety tag
-      const timestamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\..+/, "").replace("T", "-");
-      const tagName = `oops/revert-merge-${mergeSha.substring(0, 8)}-${timestamp}`;
-      
+      const tagName = safetyTagName("revert-merge", mergeSha.substring(0, 8));
+
       logger.info("🛡️  Creating safety tag...");
-      await git.exec(["tag", "-a", tagName, "-m", `Safety backup before reverting merge ${mergeSha}`, "HEAD"]);
+      await createSafetyTag(
+        git,
+        tagName,
+        `Safety backup before reverting merge ${mergeSha}`
+      );
+      operation.addSafetyTag(tagName);
       logger.success(`✅ Created safety tag: ${tagName}`);
 
       // Perform the revert
@@ -127,6 +312,8 @@ export const revertMergeCommand = new Command("revert-merge")
         throw error;
       }
 
+      const entry = await operation.complete();
+
       // Success summary
       logger.success("🎉 Merge revert completed successfully!");
 
@@ -134,6 +321,9 @@ export const revertMergeCommand = new Command("revert-merge")
       logger.info(`  • Reverted merge: ${mergeSha.substring(0, 8)}`);
       logger.info(`  • Used mainline: ${mainline}`);
       logger.info(`  • Safety tag: ${tagName}`);
+      if (entry) {
+        logger.info(`  • Journal entry: #${entry.id}`);
+      }
 
       logger.info("\n🚀 Next steps:");
       logger.info("  • Review the revert commit: git show HEAD");
@@ -141,7 +331,85 @@ export const revertMergeCommand = new Command("revert-merge")
       logger.info("  • Push when ready: git push");
 
     } catch (error) {
+      await operation?.fail(error);
       logger.error(`Revert-merge operation failed: ${error}`);
       throw error;
     }
   });
+
+function describeSide(side: MergeParent): string {
+  return side.name
+    ? `${shortSha(side.sha)} '${side.name}', from the ${side.nameSource}`
+    : shortSha(side.sha);
+}
+
+// For each parent, what reverting to it would undo: the changes the merge
+// brought in relative to it
+function reportSides(logger: Logger, sides: MergeParent[], branch: string) {
+  for (const side of sides) {
+    logger.info(
+      `\n🔀 Parent ${side.number}: ${describeSide(side)}${
+        side.onFirstParentHistory ? ` - on the history of '${branch}'` : ""
+      }`
+    );
+    if (!side.diffstat) {
+      logger.dim("    Reverting to it undoes nothing: no changes on this side");
+      continue;
+    }
+    logger.dim(`    Reverting to it undoes:`);
+    for (const line of side.diffstat.split("\n")) {
+      logger.dim(`    ${line}`);
+    }
+  }
+}
+
+// An explicit --mainline wins, with a warning if it is not the parent on the
+// current branch; otherwise the detected one is used, and only when that is
+// ambiguous is the user asked
+async function chooseMainline(
+  logger: Logger,
+  options: RevertMergeOptions,
+  sides: MergeParent[],
+  detected: number | null,
+  branch: string
+): Promise<number> {
+  if (options.mainline !== undefined) {
+    const mainline = parseInt(options.mainline, 10);
+    if (isNaN(mainline) || mainline < 1 || mainline > sides.length) {
+      throw new ValidationError(
+        `Invalid mainline ${options.mainline}. Must be between 1 and ${sides.length}`
+      );
+    }
+    if (detected !== null && detected !== mainline) {
+      logger.warn(
+        `Parent ${detected} is the one on the history of '${branch}'; --mainline ${mainline} keeps the other side and undoes the changes made on '${branch}' instead`
+      );
+    }
+    return mainline;
+  }
+
+  if (detected !== null) return detected;
+
+  const onHistory = sides.filter((side) => side.onFirstParentHistory);
+  const reason =
+    onHistory.length === 0
+      ? `no parent is on the first-parent history of '${branch}'`
+      : `parents ${onHistory
+          .map((side) => side.number)
+          .join(" and ")} are all on the first-parent history of '${branch}'`;
+
+  if (options.yes || options.dryRun || isJsonMode()) {
+    throw new ValidationError(
+      `Cannot tell which parent is the mainline: ${reason}. Pass --mainline <n>`
+    );
+  }
+
+  logger.warn(`Cannot tell which parent is the mainline: ${reason}`);
+  return select(
+    "Which parent should the branch go back to?",
+    sides.map((side) => ({
+      name: `Parent ${side.number}: ${describeSide(side)}`,
+      value: side.number,
+    }))
+  );
+}
@@ -0,0 +1,163 @@
+import { Command } from "commander";
+import { Git } from "../lib/git.js";
+import { Journal } from "../lib/journal.js";
+import { Logger, confirm, shortSha } from "../utils.js";
+import { BaseOptions, ValidationError } from "../types.js";
+
+interface RollbackOptions extends BaseOptions {
+  yes?: boolean;
+  dryRun?: boolean;
+}
+
+export const rollbackCommand = new Command("rollback")
+  .description("Restore the refs touched by a journaled operation")
+  .argument("<id>", "journal entry id (see: git oops history)")
+  .option("--dry-run", "show what would be done without executing")
+  .option("--yes", "skip confirmation prompts")
+  .option("--verbose", "enable verbose logging")
+  .action(async (id: string, options: RollbackOptions) => {
+    const logger = new Logger(options);
+    const git = new Git(logger);
+    const journal = new Journal(git);
+
+    try {
+      const entryId = parseInt(id, 10);
+      const entry = isNaN(entryId) ? undefined : await journal.get(entryId);
+      if (!entry) {
+        throw new ValidationError(
+          `No journal entry with id '${id}'. See: git oops history`
+        );
+      }
+
+      const changedRefs = entry.refs.filter(
+        (change) => change.before !== change.after
+      );
+      const targetTree =
+        entry.before.index ??
+        (entry.before.head
+          ? await git.resolveRef(`${entry.before.head}^{tree}`)
+          : null);
+
+      if (!targetTree) {
+        throw new ValidationError(
+          `Operation #${entry.id} has no recorded state to return to`
+        );
+      }
+
+      const currentTree = await git.writeTree();
+      if (!currentTree) {
+        throw new ValidationError(
+          "The index has unresolved conflicts. Resolve or abort them before rolling back"
+        );
+      }
+
+      logger.info(`🔙 Rolling back #${entry.id} (${entry.command}):`);
+      for (const change of changedRefs) {
+        const current = await git.resolveRef(change.ref);
+        logger.info(
+          `  • ${change.ref}: ${shortSha(current)} → ${shortSha(change.before)}`
+        );
+        if (current !== change.after) {
+          logger.warn(
+            `${change.ref} has moved since operation #${entry.id} (expected ${shortSha(
+              change.after
+            )})`
+          );
+        }
+      }
+      logger.info(
+        `  • HEAD: ${entry.before.branch || shortSha(entry.before.head)}`
+      );
+      if (entry.stashes.length > 0) {
+        logger.info(
+          `  • Stashes created by this operation are left untouched: ${entry.stashes
+            .map(shortSha)
+            .join(", ")}`
+        );
+      }
+
+      if (options.dryRun) {
+        logger.plan([
+          "Check out the recorded index (keeping local edits)",
+          `Restore ${changedRefs.length} refs to their previous values`,
+          `Point HEAD back at '${entry.before.branch || "detached"}'`,
+        ]);
+        return;
+      }
+
+      if (!options.yes) {
+        const confirmed = await confirm(
+          `Roll back operation #${entry.id} (${entry.command})?`,
+          false,
+          options
+        );
+
+        if (!confirmed) {
+          logger.info("Operation cancelled");
+          return;
+        }
+      }
+
+      const operation = await journal.begin("rollback");
+      for (const change of changedRefs) {
+        await operation.track(change.ref);
+      }
+
+      try {
+        // Move index and working tree first: this is the step that may refuse
+        // because of local edits, and it leaves refs untouched if it does
+        logger.info("🔄 Restoring index and working tree...");
+        await git.exec(["read-tree", "-m", "-u", currentTree, targetTree]);
+
+        if (entry.before.branch) {
+          await git.exec([
+            "symbolic-ref",
+            "HEAD",
+            `refs/heads/${entry.before.branch}`,
+          ]);
+        }
+
+        // Deletions first: a/b/c must be gone before a/b can be recreated
+        const ordered = [...changedRefs].sort(
+          (a, b) => Number(a.before !== null) - Number(b.before !== null)
+        );
+        for (const change of ordered) {
+          if (change.before) {
+            await git.updateRef(change.ref, change.before);
+          } else {
+            await git.deleteRef(change.ref);
+          }
+        }
+
+        if (!entry.before.branch && entry.before.head) {
+          await git.exec([
+            "update-ref",
+            "--no-deref",
+            "HEAD",
+            entry.before.head,
+          ]);
+        }
+
+        const saved = await operation.complete();
+
+        logger.success(`✅ Rolled back operation #${entry.id}`);
+        logger.info("\n📝 Summary:");
+        logger.info(`  • Restored ${changedRefs.length} refs`);
+        logger.info(`  • Currently on: ${entry.before.branch || "(detached)"}`);
+        if (entry.safetyTags.length > 0) {
+          logger.info(`  • Safety tags kept: ${entry.safetyTags.join(", ")}`);
+        }
+        if (saved) {
+          logger.info(
+            `  • Undo this rollback with: git oops rollback ${saved.id}`
+          );
+        }
+      } catch (error) {
+        await operation.fail(error);
+        throw error;
+      }
+    } catch (error) {
+      logger.error(`Rollback operation failed: ${error}`);
+      throw error;
+    }
+  });
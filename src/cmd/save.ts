@@ -1,10 +1,19 @@
 import { Command } from "commander";
 import { Git } from "../lib/git.js";
+import { Journal, JournalOperation } from "../lib/journal.js";
+import { loadConfig } from "../lib/config.js";
+import { DEFAULT_MESSAGE_TEMPLATE } from "../lib/messages.js";
+import {
+  buildMessageRequest,
+  getMessageProvider,
+  suggestMessage,
+} from "../lib/provider.js";
 import { Logger, confirm } from "../utils.js";
-import { BaseOptions } from "../types.js";
+import { BaseOptions, ValidationError } from "../types.js";
 
 interface SaveOptions extends BaseOptions {
   message?: string;
+  suggest?: boolean;
   yes?: boolean;
 }
 
@@ -12,14 +21,30 @@ export const saveCommand = new Command("save")
   .description(
     "Quickly save all changes with a commit (like 'git add . && git commit')"
   )
-  .option("-m, --message <message>", "commit message", "WIP: quick save")
+  .option(
+    "-m, --message <message>",
+    "commit message (default: WIP: quick save)"
+  )
+  .option("--suggest", "ask the message provider for a commit message")
   .option("--yes", "skip confirmation prompts")
   .option("--verbose", "enable verbose logging")
   .action(async (options: SaveOptions) => {
     const logger = new Logger(options);
     const git = new Git(logger);
+    let operation: JournalOperation | undefined;
 
     try {
+      if (options.suggest && options.message) {
+        throw new ValidationError(
+          "Use either --message or --suggest, not both"
+        );
+      }
+
+      const { values: config } = await loadConfig(git, {
+        saveMessage: options.message,
+      });
+      let message = config.saveMessage;
+
       // Check current status
       const status = await git.getStatus();
       const totalChanges =
@@ -55,12 +80,34 @@ export const saveCommand = new Command("save")
         logger.info(`  ... and ${allFiles.length - 8} more`);
       }
 
-      logger.info(`\n📝 Commit message: "${options.message}"`);
+      if (options.suggest) {
+        // Describe what 'git add -A' would commit, without staging it yet
+        const request = await git.withTempIndex(
+          async (env) => {
+            await git.exec(["add", "-A"], { env });
+            return buildMessageRequest(
+              git,
+              "save",
+              { env },
+              { template: DEFAULT_MESSAGE_TEMPLATE }
+            );
+          },
+          { seedFromIndex: true }
+        );
+        message = await suggestMessage(
+          getMessageProvider(config.messageProvider),
+          request,
+          logger,
+          { review: !options.yes, fallback: message }
+        );
+      }
+
+      logger.info(`\n📝 Commit message: "${message}"`);
 
       // Confirm if not using --yes
       if (!options.yes) {
         const confirmed = await confirm(
-          `Save all ${totalChanges} changes with commit message "${options.message}"?`,
+          `Save all ${totalChanges} changes with commit message "${message}"?`,
           true,
           options
         );
@@ -71,17 +118,20 @@ export const saveCommand = new Command("save")
         }
       }
 
+      operation = await new Journal(git).begin("save");
+
       // Stage everything
       logger.info("📦 Staging all changes...");
       await git.exec(["add", "-A"]);
 
       // Commit
       logger.info("💾 Creating commit...");
-      await git.exec(["commit", "-m", options.message || "WIP: quick save"]);
+      await git.exec(["commit", "-m", message]);
 
       // Get the new commit info
       const lastCommit = await git.getCommits("HEAD", 1);
       const commit = lastCommit[0];
+      const entry = await operation.complete();
 
       logger.success("✅ All changes saved successfully!");
 
@@ -89,6 +139,9 @@ export const saveCommand = new Command("save")
       logger.info(`  • Commit: ${commit.sha.substring(0, 8)}`);
       logger.info(`  • Message: ${commit.subject}`);
       logger.info(`  • Files: ${totalChanges} saved`);
+      if (entry) {
+        logger.info(`  • Journal entry: #${entry.id}`);
+      }
 
       logger.info("\n🚀 Next steps:");
       logger.info("  • Review the commit: git show HEAD");
@@ -97,6 +150,7 @@ export const saveCommand = new Command("save")
         "  • Or amend message: git commit --amend -m 'better message'"
       );
     } catch (error) {
+      await operation?.fail(error);
       logger.error(`Save operation failed: ${error}`);
       throw error;
     }
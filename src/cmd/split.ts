@@ -1,16 +1,60 @@
 import { Command } from "commander";
 import { Git } from "../lib/git.js";
-import { Logger, pluralize, getTopLevelDirectory } from "../utils.js";
+import { Journal, JournalOperation } from "../lib/journal.js";
+import { loadConfig } from "../lib/config.js";
+import { Plan, executePlan } from "../lib/plan.js";
+import {
+  SplitCommitSpec,
+  StagedHunk,
+  buildSplitCommits,
+  listStagedHunks,
+} from "../lib/split.js";
+import {
+  buildMessageRequest,
+  getMessageProvider,
+  suggestMessage,
+} from "../lib/provider.js";
+import {
+  GROUPING_STRATEGIES,
+  ROOT_GROUP,
+  groupFiles,
+  parseGroupingStrategy,
+} from "../lib/grouping.js";
+import { Logger, input, pluralize, select, truncateText } from "../utils.js";
 import { BaseOptions, ValidationError, FileGroup } from "../types.js";
 
+// A group of whole files and/or single hunks that becomes one commit
+interface SplitGroup extends FileGroup {
+  hunks: StagedHunk[];
+}
+
 interface SplitOptions extends BaseOptions {
+  by?: string;
+  depth?: string;
+  hunks?: boolean;
+  interactive?: boolean;
+  messageTemplate?: string;
+  edit?: boolean;
   dryRun?: boolean;
   yes?: boolean;
 }
 
 export const splitCommand = new Command("split")
-  .description(
-    "Split staged changes into separate commits by top-level directory"
+  .description("Split staged changes into separate commits by group")
+  .option(
+    "--by <strategy>",
+    `how to group files: ${Object.keys(GROUPING_STRATEGIES).join(", ")}`
+  )
+  .option("--depth <n>", "path segments per group for --by directory")
+  .option("--hunks", "split modified files hunk by hunk")
+  .option("-i, --interactive", "pick a group for every hunk (implies --hunks)")
+  .option(
+    "--message-template <template>",
+    "commit message template using {type}, {scope}, {summary} and {files}"
+  )
+  .option(
+    "--edit",
+    "accept, edit or reject each suggested message before committing"
   )
   .option("--dry-run", "show what would be done without executing")
   .option("--yes", "skip confirmation prompts")
@@ -18,8 +62,17 @@ export const splitCommand = new Command("split")
   .action(async (options: SplitOptions) => {
     const logger = new Logger(options);
     const git = new Git(logger);
+    let operation: JournalOperation | undefined;
 
     try {
+      const { values: config } = await loadConfig(git, {
+        splitStrategy: options.by,
+        splitMessage: options.messageTemplate,
+        splitDepth:
+          options.depth === undefined ? undefined : parseInt(options.depth, 10),
+      });
+      const strategy = parseGroupingStrategy(config.splitStrategy);
+
       // Get staged files
       const stagedFiles = await git.getStagedFiles();
       logger.verbose(`Staged files: ${stagedFiles.length}`);
@@ -30,80 +83,133 @@ export const splitCommand = new Command("split")
         return;
       }
 
-      // Group files by directory
-      const groups = groupFilesByDirectory(stagedFiles);
-      logger.verbose(`Found ${groups.length} directory groups`);
+      const fileGroups = await groupFiles(git, stagedFiles, strategy, {
+        depth: config.splitDepth,
+        globs: config.splitGroups,
+      });
+      logger.verbose(`Found ${fileGroups.length} ${strategy} groups`);
+
+      const groups =
+        options.hunks || options.interactive
+          ? await groupHunks(git, logger, fileGroups, options.interactive)
+          : fileGroups.map((group) => ({ ...group, hunks: [] }));
 
       if (groups.length <= 1) {
         logger.info(
-          "All staged files are in the same directory group - no split needed"
+          `All staged files are in the same ${strategy} group - no split needed`
         );
         return;
       }
 
       // Show the split plan
-      logger.info(`📋 Split plan (${pluralize(groups.length, "commit")}):`);
+      logger.info(
+        `📋 Split plan by ${strategy} (${pluralize(groups.length, "commit")}):`
+      );
       for (const group of groups) {
-        const dirName = group.directory === "_root_" ? "root" : group.directory;
-        logger.info(
-          `\n📁 ${dirName}/ (${pluralize(group.files.length, "file")}):`
-        );
-
-        for (const file of group.files.slice(0, 5)) {
-          logger.info(`  • ${file}`);
+        logger.info(`\n📁 ${group.name} (${describeGroup(group)}):`);
+        if (group.reason) {
+          logger.dim(`   ${group.reason}`);
         }
 
-        if (group.files.length > 5) {
-          logger.info(`  ... and ${group.files.length - 5} more`);
+        const entries = [
+          ...group.files,
+          ...group.hunks.map((hunk) => `${hunk.file} ${hunk.header}`),
+        ];
+        for (const entry of entries.slice(0, 5)) {
+          logger.info(`  • ${entry}`);
         }
-      }
 
-      if (options.dryRun) {
-        logger.info("\n📋 Dry run - would create these commits:");
-        for (const group of groups) {
-          const dirName =
-            group.directory === "_root_" ? "root" : group.directory;
-          const message =
-            group.directory === "_root_"
-              ? "chore(root): split from mixed changes"
-              : `chore(${group.directory}): split from mixed changes`;
-          logger.info(`  • "${message}"`);
+        if (entries.length > 5) {
+          logger.info(`  ... and ${entries.length - 5} more`);
         }
-        return;
       }
 
-      // Perform the split
-      logger.info("\n🚀 Splitting staged changes...");
-      let commitsCreated = 0;
+      const head = await git.resolveRef("HEAD");
+      const branch = await git.getSymbolicHead();
+      const indexTree = await git.writeTree();
+      if (!indexTree) {
+        throw new ValidationError(
+          "The index has unresolved conflicts. Resolve them before splitting"
+        );
+      }
 
+      const provider = getMessageProvider(config.messageProvider);
+      const specs: SplitCommitSpec[] = [];
       for (const group of groups) {
-        const dirName = group.directory === "_root_" ? "root" : group.directory;
-        logger.verbose(`Processing group: ${dirName}`);
+        const request = await buildMessageRequest(
+          git,
+          "split",
+          { files: group.files, hunks: group.hunks },
+          {
+            template: config.splitMessage,
+            scope: group.name === ROOT_GROUP ? "" : group.name,
+          }
+        );
+        // A dry run neither runs the provider command nor prompts: it shows
+        // the built-in suggestion
+        if (options.dryRun) {
+          specs.push({
+            message: request.heuristic,
+            files: group.files,
+            hunks: group.hunks,
+          });
+          continue;
+        }
+        if (options.edit) {
+          logger.info(`\n📁 ${group.name}:`);
+        }
+        const message = await suggestMessage(provider, request, logger, {
+          review: !!options.edit,
+          fallback: request.heuristic,
+        });
+        specs.push({ message, files: group.files, hunks: group.hunks });
+      }
 
-        // Unstage all files first
-        await git.unstageAll();
+      if (options.dryRun) {
+        logger.plan([
+          ...groups.map(
+            (group, index) =>
+              `Commit "${specs[index].message}" (${describeGroup(group)})`
+          ),
+          `Move ${branch ? `'${branch}'` : "HEAD"} to the last new commit`,
+        ]);
+        return;
+      }
 
-        // Stage only files for this group
-        await git.stage(group.files);
+      operation = await new Journal(git).begin("split");
 
-        // Check if there are actually changes to commit
-        const status = await git.getStatus();
-        if (status.staged.length === 0) {
-          logger.warn(`Skipping ${dirName} - no changes after staging`);
-          continue;
+      // Build every commit in a scratch index first; the branch only moves
+      // once all of them exist, so a failure or Ctrl-C changes nothing
+      logger.info("\n🚀 Splitting staged changes...");
+      const commits = await buildSplitCommits(git, head, indexTree, specs);
+      for (const spec of specs) {
+        if (!commits.some((commit) => commit.files === spec.files)) {
+          logger.warn(`Skipping "${spec.message}" - no changes to commit`);
         }
+      }
 
-        // Create commit message
-        const message =
-          group.directory === "_root_"
-            ? "chore(root): split from mixed changes"
-            : `chore(${group.directory}): split from mixed changes`;
+      if (commits.length > 0) {
+        const tip = commits[commits.length - 1].sha;
+        await executePlan(
+          git,
+          logger,
+          new Plan().add({
+            kind: "update-ref",
+            ref: branch ? `refs/heads/${branch}` : "HEAD",
+            sha: tip,
+            expected: head ?? undefined,
+          })
+        );
 
-        // Commit the group
-        logger.info(`Creating commit for ${dirName}/...`);
-        await git.commit(message);
-        commitsCreated++;
+        if ((await git.resolveRef(`${tip}^{tree}`)) !== indexTree) {
+          logger.warn(
+            "Some staged changes did not belong to any group and are still staged"
+          );
+        }
       }
+      const commitsCreated = commits.length;
+
+      const entry = await operation.complete();
 
       // Success!
       logger.success(
@@ -114,41 +220,84 @@ export const splitCommand = new Command("split")
         logger.info(`\n🚀 Next steps:`);
         logger.info(`  • Review commits: git log --oneline -${commitsCreated}`);
         logger.info(`  • Push when ready: git push`);
+        if (entry) {
+          logger.info(`  • To undo the split: git oops rollback ${entry.id}`);
+        }
       }
     } catch (error) {
+      await operation?.fail(error);
       logger.error(`Split operation failed: ${error}`);
       throw error;
     }
   });
 
-// Helper function to group files by directory
-function groupFilesByDirectory(files: string[]): FileGroup[] {
-  const groups = new Map<string, string[]>();
+// Hunk-level groups: files that cannot be split stay whole in their strategy
+// group; each hunk goes to its file's group, or wherever the user picks
+async function groupHunks(
+  git: Git,
+  logger: Logger,
+  fileGroups: FileGroup[],
+  interactive?: boolean
+): Promise<SplitGroup[]> {
+  const changes = await listStagedHunks(git);
+  const groups = new Map<string, SplitGroup>(
+    fileGroups.map((group) => [group.name, { ...group, files: [], hunks: [] }])
+  );
+  const groupOf = (file: string) =>
+    fileGroups.find((group) => group.files.includes(file))!.name;
+
+  for (const file of changes.files) {
+    groups.get(groupOf(file))!.files.push(file);
+  }
+
+  for (const [index, hunk] of changes.hunks.entries()) {
+    let name = groupOf(hunk.file);
 
-  for (const file of files) {
-    const directory = getTopLevelDirectory(file);
+    if (interactive) {
+      logger.info(`\n${hunk.file} ${hunk.header}`);
+      for (const line of hunk.lines.slice(0, 12)) {
+        logger.dim(`  ${truncateText(line, 100)}`);
+      }
+      if (hunk.lines.length > 12) {
+        logger.dim(`  ... and ${hunk.lines.length - 12} more lines`);
+      }
 
-    if (!groups.has(directory)) {
-      groups.set(directory, []);
+      name = await select(
+        `Group for hunk ${index + 1}/${changes.hunks.length}:`,
+        [
+          ...[...groups.keys()].map((group) => ({ name: group, value: group })),
+          { name: "➕ New group...", value: "" },
+        ],
+        name
+      );
+      if (name === "") {
+        name = await input("New group name:");
+      }
     }
-    groups.get(directory)!.push(file);
+
+    if (!groups.has(name)) {
+      groups.set(name, {
+        name,
+        reason: "picked by hand",
+        files: [],
+        hunks: [],
+      });
+    }
+    groups.get(name)!.hunks.push(hunk);
   }
 
-  // Convert to array and sort by directory name
-  const result: FileGroup[] = [];
-  const sortedDirs = Array.from(groups.keys()).sort((a, b) => {
-    // _root_ comes last
-    if (a === "_root_" && b !== "_root_") return 1;
-    if (b === "_root_" && a !== "_root_") return -1;
-    return a.localeCompare(b);
-  });
+  return [...groups.values()].filter(
+    (group) => group.files.length > 0 || group.hunks.length > 0
+  );
+}
 
-  for (const directory of sortedDirs) {
-    result.push({
-      directory,
-      files: groups.get(directory)!.sort(),
-    });
+function describeGroup(group: SplitGroup): string {
+  const parts = [];
+  if (group.files.length > 0) {
+    parts.push(pluralize(group.files.length, "file"));
   }
-
-  return result;
+  if (group.hunks.length > 0) {
+    parts.push(pluralize(group.hunks.length, "hunk"));
+  }
+  return parts.join(", ");
 }
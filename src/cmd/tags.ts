@@ -0,0 +1,372 @@
+import { Command } from "commander";
+import { Git } from "../lib/git.js";
+import { Journal, JournalOperation } from "../lib/journal.js";
+import { resolveBase } from "../lib/base.js";
+import { reportData } from "../lib/report.js";
+import {
+  createSafetyTag,
+  isUnreachable,
+  listSafetyTags,
+  safetyTagName,
+  SAFETY_TAG_PREFIX,
+} from "../lib/safetyTags.js";
+import {
+  Logger,
+  confirm,
+  formatAge,
+  pluralize,
+  shortSha,
+  truncateText,
+} from "../utils.js";
+import { BaseOptions, SafetyTag, ValidationError } from "../types.js";
+
+interface TagsOptions extends BaseOptions {
+  yes?: boolean;
+  dryRun?: boolean;
+}
+
+interface PruneOptions extends TagsOptions {
+  olderThan?: string;
+  keep?: string;
+  includeUnreachable?: boolean;
+}
+
+const listCommand = new Command("list")
+  .description("List safety tags with their operation, age and diff to HEAD")
+  .option("--verbose", "enable verbose logging")
+  .action(async (options: TagsOptions) => {
+    const logger = new Logger(options);
+    const git = new Git(logger);
+
+    try {
+      const tags = await listSafetyTags(git);
+      reportData(tags);
+
+      if (tags.length === 0) {
+        logger.info("🏷️  No safety tags found");
+        return;
+      }
+
+      logger.info(
+        `🏷️  ${pluralize(tags.length, "safety tag")} (newest first):`
+      );
+      for (const tag of tags) {
+        const diff = await describeDiffToHead(git, tag);
+        logger.info(`\n  ${tag.name}`);
+        logger.dim(
+          `     ${tag.operation} • ${formatAge(tag.timestamp)} • ${shortSha(
+            tag.sha
+          )} • ${diff}`
+        );
+      }
+
+      logger.info("\n💡 Inspect one with: git oops tags show <tag>");
+    } catch (error) {
+      logger.error(`Tags list failed: ${error}`);
+      throw error;
+    }
+  });
+
+const showCommand = new Command("show")
+  .description("Show details of a safety tag")
+  .argument("<tag>", "safety tag name")
+  .option("--verbose", "enable verbose logging")
+  .action(async (tagName: string, options: TagsOptions) => {
+    const logger = new Logger(options);
+    const git = new Git(logger);
+
+    try {
+      const tag = await findSafetyTag(git, tagName);
+
+      logger.info(`🏷️  ${tag.name}`);
+      logger.info(`  • Operation: ${tag.operation}`);
+      logger.info(
+        `  • Created: ${tag.timestamp} (${formatAge(tag.timestamp)})`
+      );
+      logger.info(`  • Commit: ${tag.sha}`);
+      logger.info(`  • Message: ${tag.message}`);
+      logger.info(
+        `  • Compared to HEAD: ${await describeDiffToHead(git, tag)}`
+      );
+
+      const missing = await git.getCommits(`HEAD..${tag.sha}`, 10);
+      reportData({ ...tag, missingCommits: missing });
+      if (missing.length > 0) {
+        logger.info("\n📋 Commits in the tag that HEAD no longer has:");
+        for (const commit of missing) {
+          logger.info(
+            `  ${commit.sha.substring(0, 8)} ${truncateText(commit.subject, 60)}`
+          );
+        }
+      }
+
+      const stat = await git.exec(["diff", "--stat", "HEAD", tag.sha]);
+      if (stat.trim() !== "") {
+        logger.info("\n📁 Diff from HEAD to tag:");
+        logger.dim(stat);
+      }
+    } catch (error) {
+      logger.error(`Tags show failed: ${error}`);
+      throw error;
+    }
+  });
+
+const restoreCommand = new Command("restore")
+  .description("Reset the current branch to a safety tag")
+  .argument("<tag>", "safety tag name")
+  .option("--dry-run", "show what would be done without executing")
+  .option("--yes", "skip confirmation prompts")
+  .option("--verbose", "enable verbose logging")
+  .action(async (tagName: string, options: TagsOptions) => {
+    const logger = new Logger(options);
+    const git = new Git(logger);
+    let operation: JournalOperation | undefined;
+
+    try {
+      const tag = await findSafetyTag(git, tagName);
+      const currentBranch = await git.getCurrentBranch();
+
+      logger.info(`🔍 Restoring '${currentBranch}' to ${tag.name}`);
+      logger.info(`  • Tag commit: ${shortSha(tag.sha)} (${tag.operation})`);
+      logger.info(
+        `  • Compared to HEAD: ${await describeDiffToHead(git, tag)}`
+      );
+
+      // Same pushed-commit check as undo: warn when commits that would be
+      // dropped from the branch already exist on the upstream
+      const dropped = await git.countCommits(`${tag.sha}..HEAD`);
+      const upstream = (await resolveBase(git, logger))?.ref ?? null;
+      let dropsPushedCommits = false;
+      if (upstream && dropped > 0) {
+        const unpushedCount = await git.countCommits(`${upstream}..HEAD`);
+        dropsPushedCommits = unpushedCount < dropped;
+
+        if (dropsPushedCommits) {
+          logger.warn("⚠️  Some commits that would be dropped are pushed!");
+          logger.warn("   Restoring requires force-push and affects others");
+        }
+      }
+
+      if (options.dryRun) {
+        logger.plan([
+          "Create safety tag pointing to current HEAD",
+          `Reset '${currentBranch}' to ${shortSha(tag.sha)} (keeping local changes)`,
+        ]);
+        return;
+      }
+
+      if (!options.yes) {
+        const warningMsg = dropsPushedCommits
+          ? `⚠️  PUSHED COMMITS WILL BE DROPPED! Restore ${tag.name}?`
+          : `Reset '${currentBranch}' to ${tag.name}?`;
+
+        const confirmed = await confirm(warningMsg, false, options);
+
+        if (!confirmed) {
+          logger.info("Operation cancelled");
+          return;
+        }
+      }
+
+      operation = await new Journal(git).begin("tags-restore");
+
+      const backupTag = safetyTagName("tags-restore");
+      logger.info("🛡️  Creating safety tag...");
+      await createSafetyTag(
+        git,
+        backupTag,
+        `Safety backup before restoring ${tag.name}`
+      );
+      operation.addSafetyTag(backupTag);
+      logger.success(`✅ Created safety tag: ${backupTag}`);
+
+      // --keep refuses instead of overwriting uncommitted changes
+      logger.info(`🔄 Resetting '${currentBranch}' to ${tag.name}...`);
+      await git.exec(["reset", "--keep", tag.sha]);
+
+      const entry = await operation.complete();
+
+      logger.success(`✅ Restored ${tag.name}`);
+      logger.info("\n📝 Summary:");
+      logger.info(`  • ${currentBranch} is now at: ${shortSha(tag.sha)}`);
+      logger.info(`  • Previous HEAD saved as: ${backupTag}`);
+      if (entry) {
+        logger.info(`  • Journal entry: #${entry.id}`);
+      }
+
+      if (dropsPushedCommits) {
+        logger.warn("\n⚠️  Force-push required: git push --force-with-lease");
+      }
+    } catch (error) {
+      await operation?.fail(error);
+      logger.error(`Tags restore failed: ${error}`);
+      throw error;
+    }
+  });
+
+const pruneCommand = new Command("prune")
+  .description("Delete old safety tags by age or count")
+  .option("--older-than <days>", "delete tags older than this many days")
+  .option("--keep <count>", "keep only the newest <count> tags")
+  .option(
+    "--include-unreachable",
+    "also delete tags whose commits no branch contains"
+  )
+  .option("--dry-run", "show what would be done without executing")
+  .option("--yes", "skip confirmation prompts")
+  .option("--verbose", "enable verbose logging")
+  .action(async (options: PruneOptions) => {
+    const logger = new Logger(options);
+    const git = new Git(logger);
+    let operation: JournalOperation | undefined;
+
+    try {
+      if (options.olderThan === undefined && options.keep === undefined) {
+        throw new ValidationError(
+          "Specify --older-than <days> and/or --keep <count>"
+        );
+      }
+
+      const olderThan =
+        options.olderThan !== undefined
+          ? parseInt(options.olderThan, 10)
+          : undefined;
+      const keep =
+        options.keep !== undefined ? parseInt(options.keep, 10) : undefined;
+
+      if (olderThan !== undefined && (isNaN(olderThan) || olderThan < 0)) {
+        throw new ValidationError("--older-than must be a number of days");
+      }
+      if (keep !== undefined && (isNaN(keep) || keep < 0)) {
+        throw new ValidationError("--keep must be a non-negative integer");
+      }
+
+      const tags = await listSafetyTags(git);
+      const cutoff =
+        olderThan !== undefined ? Date.now() - olderThan * 86400000 : undefined;
+
+      const candidates = tags.filter((tag, index) => {
+        if (keep !== undefined && index < keep) return false;
+        if (cutoff !== undefined && Date.parse(tag.timestamp) > cutoff) {
+          return false;
+        }
+        return true;
+      });
+
+      const toDelete: SafetyTag[] = [];
+      const kept: SafetyTag[] = [];
+      for (const tag of candidates) {
+        // A tag may be the only thing keeping its commits alive
+        if (
+          !options.includeUnreachable &&
+          (await isUnreachable(git, tag.sha))
+        ) {
+          kept.push(tag);
+        } else {
+          toDelete.push(tag);
+        }
+      }
+
+      if (kept.length > 0) {
+        logger.info(
+          `🔒 Keeping ${pluralize(kept.length, "tag")} whose commits are not on any branch:`
+        );
+        for (const tag of kept) {
+          logger.info(`  • ${tag.name}`);
+        }
+        logger.dim("   Use --include-unreachable to delete them anyway");
+      }
+
+      if (toDelete.length === 0) {
+        logger.info("✨ Nothing to prune");
+        return;
+      }
+
+      logger.info(`🗑️  ${pluralize(toDelete.length, "tag")} to delete:`);
+      for (const tag of toDelete) {
+        logger.info(`  • ${tag.name} (${formatAge(tag.timestamp)})`);
+      }
+
+      if (options.dryRun) {
+        logger.plan(
+          toDelete.map((tag) => `Delete ${tag.name}`),
+          "📋 Dry run - no tags were deleted. Would delete:"
+        );
+        return;
+      }
+
+      if (!options.yes) {
+        const confirmed = await confirm(
+          `Delete ${pluralize(toDelete.length, "safety tag")}?`,
+          false,
+          options
+        );
+
+        if (!confirmed) {
+          logger.info("Operation cancelled");
+          return;
+        }
+      }
+
+      operation = await new Journal(git).begin("tags-prune");
+      for (const tag of toDelete) {
+        await operation.track(`refs/tags/${tag.name}`);
+      }
+
+      await git.exec(["tag", "-d", ...toDelete.map((tag) => tag.name)]);
+      const entry = await operation.complete();
+
+      logger.success(`✅ Deleted ${pluralize(toDelete.length, "safety tag")}`);
+      if (entry) {
+        logger.info(`  • To bring them back: git oops rollback ${entry.id}`);
+      }
+    } catch (error) {
+      await operation?.fail(error);
+      logger.error(`Tags prune failed: ${error}`);
+      throw error;
+    }
+  });
+
+export const tagsCommand = new Command("tags")
+  .description("List, inspect, restore and prune git-oops safety tags")
+  .addCommand(listCommand, { isDefault: true })
+  .addCommand(showCommand)
+  .addCommand(restoreCommand)
+  .addCommand(pruneCommand);
+
+async function findSafetyTag(git: Git, name: string): Promise<SafetyTag> {
+  const fullName = name.startsWith(SAFETY_TAG_PREFIX)
+    ? name
+    : `${SAFETY_TAG_PREFIX}${name}`;
+  const tags = await listSafetyTags(git);
+  const tag = tags.find((candidate) => candidate.name === fullName);
+
+  if (!tag) {
+    throw new ValidationError(
+      `Safety tag '${name}' not found. See: git oops tags list`
+    );
+  }
+
+  return tag;
+}
+
+async function describeDiffToHead(git: Git, tag: SafetyTag): Promise<string> {
+  const counts = await git.exec([
+    "rev-list",
+    "--left-right",
+    "--count",
+    `HEAD...${tag.sha}`,
+  ]);
+  const [headOnly, tagOnly] = counts.trim().split(/\s+/).map(Number);
+  const stat = (
+    await git.exec(["diff", "--shortstat", "HEAD", tag.sha])
+  ).trim();
+
+  if (headOnly === 0 && tagOnly === 0) {
+    return "same as HEAD";
+  }
+
+  return `${tagOnly} commits not in HEAD, ${headOnly} new since${
+    stat ? `; ${stat}` : ""
+  }`;
+}
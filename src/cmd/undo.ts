@@ -1,5 +1,8 @@
 import { Command } from "commander";
 import { Git } from "../lib/git.js";
+import { Journal, JournalOperation } from "../lib/journal.js";
+import { resolveBase } from "../lib/base.js";
+import { createSafetyTag, safetyTagName } from "../lib/safetyTags.js";
 import { Logger, confirm, pluralize } from "../utils.js";
 import { BaseOptions, ValidationError } from "../types.js";
 
@@ -18,6 +21,7 @@ export const undoCommand = new Command("undo")
   .action(async (options: UndoOptions) => {
     const logger = new Logger(options);
     const git = new Git(logger);
+    let operation: JournalOperation | undefined;
 
     try {
       const commitCount = parseInt(options.commits || "1", 10);
@@ -59,7 +63,7 @@ export const undoCommand = new Command("undo")
       }
 
       // Check if any commits are pushed
-      const upstream = await git.getUpstream();
+      const upstream = (await resolveBase(git, logger))?.ref ?? null;
       let hasUnpushedCommits = false;
       if (upstream) {
         const unpushedCount = await git.countCommits(`${upstream}..HEAD`);
@@ -74,12 +78,11 @@ export const undoCommand = new Command("undo")
       }
 
       if (options.dryRun) {
-        logger.info("\n📋 Dry run - would perform these actions:");
-        logger.info(`1. Create safety tag pointing to current HEAD`);
-        logger.info(
-          `2. Reset HEAD~${commitCount} (keep changes in working directory)`
-        );
-        logger.info(`3. Show status of uncommitted changes`);
+        logger.plan([
+          "Create safety tag pointing to current HEAD",
+          `Reset HEAD~${commitCount} (keep changes in working directory)`,
+          "Show status of uncommitted changes",
+        ]);
         return;
       }
 
@@ -103,25 +106,18 @@ export const undoCommand = new Command("undo")
         }
       }
 
+      operation = await new Journal(git).begin("undo");
 
       // Create safety tag with random suffix to prevent collisions
-      const timestamp = new Date()
-        .toISOString()
-        .replace(/[-:]/g, "")
-        .replace(/\..+/, "")
-        .replace("T", "-");
-      const randomSuffix = Math.random().toString(36).substring(2, 8);
-      const tagName = `oops/undo-${commitCount}-commits-${timestamp}-${randomSuffix}`;
+      const tagName = safetyTagName("undo", `${commitCount}-commits`);
 
       logger.info("🛡️  Creating safety tag...");
-      await git.exec([
-        "tag",
-        "-a",
+      await createSafetyTag(
+        git,
         tagName,
-        "-m",
-        `Safety backup before undoing ${commitCount} commits`,
-        "HEAD",
-      ]);
+        `Safety backup before undoing ${commitCount} commits`
+      );
+      operation.addSafetyTag(tagName);
       logger.success(`✅ Created safety tag: ${tagName}`);
 
       // Perform the undo (soft reset to preserve changes)
@@ -130,6 +126,7 @@ export const undoCommand = new Command("undo")
 
       // Show current status
       const status = await git.getStatus();
+      const entry = await operation.complete();
 
       logger.success(
         `✅ Successfully undid ${pluralize(commitCount, "commit")}`
@@ -138,6 +135,9 @@ export const undoCommand = new Command("undo")
       logger.info("\n📝 Summary:");
       logger.info(`  • Undid: ${commitCount} commits`);
       logger.info(`  • Safety tag: ${tagName}`);
+      if (entry) {
+        logger.info(`  • Journal entry: #${entry.id}`);
+      }
       logger.info(
         `  • Changes preserved in: ${status.staged.length} staged files`
       );
@@ -164,6 +164,7 @@ export const undoCommand = new Command("undo")
         logger.warn("   git push --force-with-lease");
       }
     } catch (error) {
+      await operation?.fail(error);
       logger.error(`Undo operation failed: ${error}`);
       throw error;
     }
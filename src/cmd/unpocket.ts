@@ -0,0 +1,108 @@
+import { Command } from "commander";
+import { Git } from "../lib/git.js";
+import { Journal, JournalOperation } from "../lib/journal.js";
+import { getPocket, isStashLike, migrateLegacyPocket } from "../lib/pockets.js";
+import { Logger, formatAge, shortSha } from "../utils.js";
+import { BaseOptions, ValidationError } from "../types.js";
+
+interface UnpocketOptions extends BaseOptions {
+  keep?: boolean;
+  dryRun?: boolean;
+}
+
+export const unpocketCommand = new Command("unpocket")
+  .description("Restore a pocket saved with 'git oops pocket'")
+  .argument("[n]", "pocket index from 'git oops pocket list'", "0")
+  .option("--keep", "keep the pocket after restoring it")
+  .option("--dry-run", "show what would be done without executing")
+  .option("--verbose", "enable verbose logging")
+  .action(async (n: string, options: UnpocketOptions) => {
+    const logger = new Logger(options);
+    const git = new Git(logger);
+    let operation: JournalOperation | undefined;
+
+    try {
+      const index = parseInt(n, 10);
+      if (isNaN(index) || index < 0) {
+        throw new ValidationError(
+          "Pocket index must be a non-negative integer"
+        );
+      }
+
+      const currentBranch = await git.getCurrentBranch();
+      await migrateLegacyPocket(git, currentBranch);
+      const pocket = await getPocket(git, currentBranch, index);
+
+      logger.info(`📦 Pocket ${index}: ${pocket.message}`);
+      logger.dim(`   ${formatAge(pocket.timestamp)} • ${pocket.ref}`);
+
+      // Applying on top of local edits would mix the two states together
+      const status = await git.getStatus();
+      if (status.staged.length > 0 || status.unstaged.length > 0) {
+        throw new ValidationError(
+          "Working tree has uncommitted changes that unpocket would clobber. " +
+            "Commit, stash or pocket them first"
+        );
+      }
+
+      const hasChanges = await isStashLike(git, pocket.sha);
+      if (hasChanges) {
+        const base = await git.resolveRef(`${pocket.sha}^1`);
+        const head = await git.resolveRef("HEAD");
+        if (base !== head) {
+          logger.warn(
+            `Pocket was saved on ${shortSha(base)} but HEAD is now ${shortSha(
+              head
+            )}; changes will be merged`
+          );
+        }
+      } else {
+        logger.info(
+          "ℹ️  This pocket was saved from a clean tree - nothing to apply"
+        );
+      }
+
+      if (options.dryRun) {
+        logger.plan([
+          ...(hasChanges
+            ? ["Restore staged, unstaged and untracked changes"]
+            : []),
+          ...(options.keep ? [] : [`Delete ${pocket.ref}`]),
+        ]);
+        return;
+      }
+
+      operation = await new Journal(git).begin("unpocket");
+      await operation.track(pocket.ref);
+
+      if (hasChanges) {
+        logger.info("📤 Restoring pocketed changes...");
+        try {
+          await git.exec(["stash", "apply", "--index", pocket.sha]);
+        } catch (error) {
+          logger.info(`\n💾 The pocket is kept at ${pocket.ref}`);
+          throw error;
+        }
+      }
+
+      if (!options.keep) {
+        await git.deleteRef(pocket.ref);
+      }
+
+      const entry = await operation.complete();
+
+      logger.success(`✅ Restored pocket ${index}`);
+      logger.info("\n📝 Summary:");
+      logger.info(`  • Branch: ${currentBranch}`);
+      logger.info(
+        options.keep ? `  • Pocket kept: ${pocket.ref}` : "  • Pocket dropped"
+      );
+      if (entry) {
+        logger.info(`  • Journal entry: #${entry.id}`);
+      }
+    } catch (error) {
+      await operation?.fail(error);
+      logger.error(`Unpocket operation failed: ${error}`);
+      throw error;
+    }
+  });
@@ -1,17 +1,39 @@
 import { Command } from "commander";
 import { Git } from "../lib/git.js";
+import { Journal, JournalOperation } from "../lib/journal.js";
+import { loadConfig } from "../lib/config.js";
+import { Plan, executePlan } from "../lib/plan.js";
+import { createSafetyTag, safetyTagName } from "../lib/safetyTags.js";
+import { resolveBase } from "../lib/base.js";
+import {
+  MoveState,
+  abortMove,
+  continueMove,
+  describeMove,
+  loadMoveState,
+  moveInProgress,
+  startMove,
+} from "../lib/moveCommits.js";
 import {
   Logger,
+  checkbox,
   confirm,
   sanitizeBranchName,
+  shortSha,
   truncateText,
   pluralize,
   isProtectedBranch,
 } from "../utils.js";
-import { BaseOptions, ValidationError } from "../types.js";
+import { BaseOptions, GitCommit, ValidationError } from "../types.js";
 
 interface WrongBranchOptions extends BaseOptions {
+  prefix?: string;
   yes?: boolean;
+  onto?: string;
+  last?: string;
+  pick?: string | boolean;
+  continue?: boolean;
+  abort?: boolean;
 }
 
 export const wrongBranchCommand = new Command("wrong-branch")
@@ -19,6 +41,18 @@ export const wrongBranchCommand = new Command("wrong-branch")
     "Move commits from current branch to a new branch and reset current branch to upstream"
   )
   .argument("[new-branch]", "name of the new branch to create (optional)")
+  .option("--prefix <prefix>", "prefix for the generated branch name")
+  .option(
+    "--onto <branch>",
+    "cherry-pick the commits onto an existing branch instead"
+  )
+  .option("--last <n>", "move only the last N commits")
+  .option(
+    "--pick [commits]",
+    "move only these commits (comma-separated shas or revisions), or choose them interactively"
+  )
+  .option("--continue", "carry on after resolving a cherry-pick conflict")
+  .option("--abort", "give up a stopped move and restore both branches")
   .option("--dry-run", "show what would be done without executing")
   .option("--yes", "skip confirmation prompts")
   .option("--verbose", "enable verbose logging")
@@ -26,48 +60,94 @@ export const wrongBranchCommand = new Command("wrong-branch")
     async (newBranchName: string | undefined, options: WrongBranchOptions) => {
       const logger = new Logger(options);
       const git = new Git(logger);
+      let operation: JournalOperation | undefined;
 
       try {
-        // Get current branch
-        const currentBranch = await git.getCurrentBranch();
-        logger.verbose(`Current branch: ${currentBranch}`);
+        if (options.continue || options.abort) {
+          if (options.continue && options.abort) {
+            throw new ValidationError("Use either --continue or --abort");
+          }
+          if (options.abort) {
+            const state = await abortMove(git, logger);
+            logger.success(
+              `✅ Move aborted - '${state.currentBranch}' and '${state.targetBranch}' are back where they were`
+            );
+            return;
+          }
 
-        // Check if current branch is protected
-        if (isProtectedBranch(currentBranch) && !options.yes) {
+          // Both branches are recorded as they are now, before the move
+          // carries on, so that rolling this back restores them
+          operation = await new Journal(git).begin("wrong-branch");
+          const pending = await loadMoveState(git);
+          if (pending) {
+            await operation.track(`refs/heads/${pending.currentBranch}`);
+            await operation.track(`refs/heads/${pending.targetBranch}`);
+          }
+          const state = await continueMove(git, logger);
+          const entry = await operation.complete();
+          reportMove(logger, state, entry?.id);
+          return;
+        }
+
+        if (await moveInProgress(git)) {
           throw new ValidationError(
-            `Branch '${currentBranch}' appears to be protected. Use --yes to proceed anyway.`
+            "A wrong-branch move is still in progress. Finish it with --continue or undo it with --abort"
           );
         }
 
-        // Get upstream or fall back to main/master
-        let upstream = await git.getUpstream(currentBranch);
-        if (!upstream) {
-          logger.verbose(
-            `No upstream found for '${currentBranch}', checking for main/master`
-          );
+        const { values: config } = await loadConfig(git, {
+          branchPrefix: options.prefix,
+        });
 
-          // Try to find main or master branch
-          try {
-            await git.exec(["rev-parse", "--verify", "main"]);
-            upstream = "main";
-            logger.info(
-              `⚠️  No upstream configured, using local 'main' branch as reference`
+        // Get current branch
+        const currentBranch = await git.getCurrentBranch();
+        logger.verbose(`Current branch: ${currentBranch}`);
+
+        // Committing to main by mistake is what this command is for, so a
+        // protected branch only gets a closer look before confirming
+        const isProtected = isProtectedBranch(
+          currentBranch,
+          config.protectedBranches
+        );
+
+        if (options.onto) {
+          if (newBranchName) {
+            throw new ValidationError(
+              "Give either a new branch name or --onto <branch>, not both"
+            );
+          }
+          if (options.onto === currentBranch) {
+            throw new ValidationError(
+              `'${currentBranch}' is the current branch; --onto needs another branch`
+            );
+          }
+          if (!(await git.resolveRef(`refs/heads/${options.onto}`))) {
+            throw new ValidationError(
+              `Branch '${options.onto}' does not exist. To create it, run: git oops wrong-branch ${options.onto}`
             );
-          } catch {
-            try {
-              await git.exec(["rev-parse", "--verify", "master"]);
-              upstream = "master";
-              logger.info(
-                `⚠️  No upstream configured, using local 'master' branch as reference`
-              );
-            } catch {
-              throw new ValidationError(
-                `Branch '${currentBranch}' has no upstream and no main/master branch found. ` +
-                  `Set upstream with: git push -u origin ${currentBranch}`
-              );
-            }
           }
         }
+        if (options.last && options.pick) {
+          throw new ValidationError("Use either --last or --pick, not both");
+        }
+
+        // Get the upstream, or the branch this one most likely came from
+        const base = await resolveBase(git, logger, {
+          branch: currentBranch,
+          config,
+        });
+        if (!base) {
+          throw new ValidationError(
+            `Branch '${currentBranch}' has no upstream and no base branch was found (looked for ${config.defaultBranches.join(", ")}). ` +
+              `Set upstream with: git push -u origin ${currentBranch}, or set oops.baseBranch`
+          );
+        }
+        if (base.source !== "upstream") {
+          logger.info(
+            `⚠️  No upstream configured, using '${base.ref}' as reference (${base.reason})`
+          );
+        }
+        const upstream = base.ref;
 
         logger.verbose(`Upstream: ${upstream}`);
 
@@ -83,8 +163,14 @@ export const wrongBranchCommand = new Command("wrong-branch")
         }
 
         // Get commits to move
-        const commits = await git.getCommits(`${upstream}..HEAD`);
-        logger.info(`Found ${pluralize(uniqueCommits, "commit")} to move:`);
+        const unpushed = await git.getCommits(`${upstream}..HEAD`);
+        const commits = await selectCommits(git, unpushed, options);
+        const moveAll = commits.length === unpushed.length;
+        logger.info(
+          `Found ${pluralize(commits.length, "commit")} to move${
+            moveAll ? "" : ` (of ${uniqueCommits})`
+          }:`
+        );
 
         for (const commit of commits.slice(0, 5)) {
           logger.info(
@@ -101,32 +187,109 @@ export const wrongBranchCommand = new Command("wrong-branch")
 
         // Determine target branch name
         let targetBranch: string;
-        if (newBranchName) {
+        if (options.onto) {
+          targetBranch = options.onto;
+        } else if (newBranchName) {
           targetBranch = newBranchName;
         } else {
           const lastCommit = commits[0];
-          const sanitizedSubject = sanitizeBranchName(lastCommit.subject);
-          targetBranch = `fix/${sanitizedSubject}`;
+          const sanitizedSubject = sanitizeBranchName(
+            lastCommit.subject,
+            config.branchMaxLength
+          );
+          targetBranch = `${config.branchPrefix}${sanitizedSubject}`;
         }
 
         logger.info(`Target branch: ${targetBranch}`);
 
+        // Staged and unstaged edits go along to the target branch; untracked
+        // files are never touched, so they simply stay where they are
+        const status = await git.getStatus();
+        const localChanges = [
+          ...new Set([
+            ...status.staged,
+            ...status.unstaged.filter(
+              (file) => !status.untracked.includes(file)
+            ),
+          ]),
+        ];
+        if (localChanges.length > 0) {
+          logger.info(
+            `📦 ${pluralize(localChanges.length, "file")} with uncommitted changes will move along to '${targetBranch}'`
+          );
+        }
+
+        const head = (await git.resolveRef("HEAD"))!;
+        const tagName = safetyTagName("wrong-branch", currentBranch);
+
+        // Moving every commit to a new branch is just a matter of moving refs:
+        // switching to a branch at the same commit keeps local edits, and the
+        // current branch is moved back without touching the working tree.
+        // Anything else copies the commits with cherry-pick.
+        let plan: Plan | undefined;
+        let move: MoveState | undefined;
+        if (moveAll && !options.onto) {
+          plan = new Plan()
+            .add({ kind: "create-branch", branch: targetBranch, at: "HEAD" })
+            .add({ kind: "switch", branch: targetBranch })
+            .add({
+              kind: "update-ref",
+              ref: `refs/heads/${currentBranch}`,
+              sha: (await git.resolveRef(upstream))!,
+              expected: head,
+            });
+        } else {
+          move = await planMove(git, {
+            currentBranch,
+            targetBranch,
+            onto: !!options.onto,
+            upstream,
+            head,
+            safetyTag: tagName,
+            unpushed,
+            commits,
+          });
+        }
+
         if (options.dryRun) {
-          logger.info("\n📋 Dry run - would perform these actions:");
-          logger.info(`1. Create branch '${targetBranch}' at current HEAD`);
-          logger.info(`2. Switch back to '${currentBranch}'`);
-          logger.info(`3. Reset '${currentBranch}' to '${upstream}'`);
-          logger.info(`4. Switch to '${targetBranch}'`);
+          logger.plan([
+            "Create safety tag pointing to current HEAD",
+            ...(move && !options.onto
+              ? [`Create branch '${targetBranch}' at ${upstream}`]
+              : []),
+            ...(move && localChanges.length > 0
+              ? ["Stash the uncommitted changes"]
+              : []),
+            ...(plan ? plan.describe() : describeMove(move!)),
+            ...(move && localChanges.length > 0
+              ? [`Reapply the uncommitted changes on '${targetBranch}'`]
+              : []),
+          ]);
           return;
         }
 
+        if (isProtected && !options.yes) {
+          logger.warn(
+            `⚠️  '${currentBranch}' is a protected branch (oops.protectedBranches)`
+          );
+          logger.warn(
+            `   ${pluralize(commits.length, "commit")} will be taken off it and it will be reset to ${
+              move ? shortSha(move.keepBase) : upstream
+            }`
+          );
+          logger.warn(
+            `   The current state is kept in the safety tag ${tagName}`
+          );
+        }
+
         // Confirm operation
         if (!options.yes) {
           const confirmed = await confirm(
-            `Move ${pluralize(
-              uniqueCommits,
-              "commit"
-            )} from '${currentBranch}' to new branch '${targetBranch}'?`,
+            `Move ${pluralize(commits.length, "commit")} from ${
+              isProtected ? "protected branch " : ""
+            }'${currentBranch}' to ${
+              options.onto ? "" : "new branch "
+            }'${targetBranch}'?`,
             false,
             options
           );
@@ -139,22 +302,53 @@ export const wrongBranchCommand = new Command("wrong-branch")
 
         // Perform the operation
         logger.info("🚀 Starting wrong-branch operation...");
+        operation = await new Journal(git).begin("wrong-branch");
+        await operation.track(`refs/heads/${targetBranch}`);
 
-        // 1. Create new branch at current HEAD
-        logger.info(`Creating branch '${targetBranch}'...`);
-        await git.createBranch(targetBranch);
-
-        // 2. Switch back to original branch
-        logger.verbose(`Switching back to '${currentBranch}'...`);
-        await git.switchBranch(currentBranch);
+        logger.info("🛡️  Creating safety tag...");
+        await createSafetyTag(
+          git,
+          tagName,
+          `Safety backup of '${currentBranch}' before moving commits to '${targetBranch}'`
+        );
+        operation.addSafetyTag(tagName);
+        logger.success(`✅ Created safety tag: ${tagName}`);
 
-        // 3. Reset to upstream
-        logger.info(`Resetting '${currentBranch}' to '${upstream}'...`);
-        await git.resetHard(upstream);
+        if (plan) {
+          // Branch off at HEAD, switch over, then move the current branch
+          // back; a failure at any step puts everything back
+          logger.info(
+            `Creating branch '${targetBranch}' and resetting '${currentBranch}' to '${upstream}'...`
+          );
+          await executePlan(git, logger, plan);
+        } else if (move) {
+          if (localChanges.length > 0) {
+            logger.info("📦 Stashing uncommitted changes...");
+            const message = `wrong-branch: uncommitted changes on ${currentBranch}`;
+            const stash = await git.stashCreate(message);
+            if (!stash) {
+              throw new ValidationError(
+                "Could not stash the uncommitted changes; nothing was moved"
+              );
+            }
+            // On the stash list, not only in the state file, so the changes
+            // are not garbage-collected if the move is abandoned
+            await git.exec(["stash", "store", "-m", message, stash]);
+            move.stash = stash;
+            operation.addStash(stash);
+            await git.resetHard("HEAD");
+          }
+          if (!options.onto) {
+            await git.exec(["branch", targetBranch, upstream]);
+          }
+          await startMove(git, logger, move);
+        }
+        const entry = await operation.complete();
 
-        // 4. Switch to new branch
-        logger.verbose(`Switching to '${targetBranch}'...`);
-        await git.switchBranch(targetBranch);
+        if (move) {
+          reportMove(logger, move, entry?.id);
+          return;
+        }
 
         // Success!
         logger.success(
@@ -167,13 +361,164 @@ export const wrongBranchCommand = new Command("wrong-branch")
         logger.info(`  • Created branch: ${targetBranch}`);
         logger.info(`  • Reset ${currentBranch} to: ${upstream}`);
         logger.info(`  • Currently on: ${targetBranch}`);
+        if (localChanges.length > 0) {
+          logger.info(
+            `  • Uncommitted changes: ${pluralize(localChanges.length, "file")} carried over`
+          );
+        }
+        logger.info(`  • Safety tag: ${tagName}`);
+        if (entry) {
+          logger.info(`  • Journal entry: #${entry.id}`);
+        }
 
         logger.info(`\n🚀 Next steps:`);
         logger.info(`  • Review your commits on '${targetBranch}'`);
         logger.info(`  • Push when ready: git push -u origin ${targetBranch}`);
       } catch (error) {
+        await operation?.fail(error);
         logger.error(`Wrong-branch operation failed: ${error}`);
         throw error;
       }
     }
   );
+
+// The commits chosen with --last or --pick, newest first like getCommits;
+// all of them by default
+async function selectCommits(
+  git: Git,
+  unpushed: GitCommit[],
+  options: WrongBranchOptions
+): Promise<GitCommit[]> {
+  if (options.last) {
+    const count = Number(options.last);
+    if (!Number.isInteger(count) || count < 1) {
+      throw new ValidationError(
+        `--last expects a positive number, got '${options.last}'`
+      );
+    }
+    if (count > unpushed.length) {
+      throw new ValidationError(
+        `--last ${count} asks for more than the ${pluralize(unpushed.length, "unpushed commit")}`
+      );
+    }
+    return unpushed.slice(0, count);
+  }
+
+  if (typeof options.pick === "string") {
+    const wanted = options.pick
+      .split(",")
+      .map((rev) => rev.trim())
+      .filter(Boolean);
+    const picked = new Set<string>();
+    for (const rev of wanted) {
+      // Let git resolve it, so an ambiguous short sha is an error rather
+      // than whichever commit matches first, and HEAD~1 works too. Peel
+      // separately: "^{commit}" would become part of a :/subject pattern
+      const resolved = await git.resolveRef(rev);
+      const sha = resolved && (await git.resolveRef(`${resolved}^{commit}`));
+      if (!sha) {
+        throw new ValidationError(
+          `'${rev}' does not name a single commit; use more characters of the sha`
+        );
+      }
+      if (!unpushed.some((commit) => commit.sha === sha)) {
+        throw new ValidationError(
+          `'${rev}' is not one of the unpushed commits on this branch`
+        );
+      }
+      picked.add(sha);
+    }
+    return unpushed.filter((commit) => picked.has(commit.sha));
+  }
+
+  if (options.pick) {
+    const picked = await checkbox(
+      "Which commits should move?",
+      unpushed.map((commit) => ({
+        name: `${shortSha(commit.sha)} ${truncateText(commit.subject, 60)}`,
+        value: commit.sha,
+      }))
+    );
+    if (picked.length === 0) {
+      throw new ValidationError("No commits selected to move");
+    }
+    return unpushed.filter((commit) => picked.includes(commit.sha));
+  }
+
+  return unpushed;
+}
+
+// Work out how to cherry-pick the chosen commits away: the current branch
+// goes back to just before the oldest of them, and the commits after that
+// point which stay are replayed on top
+async function planMove(
+  git: Git,
+  move: {
+    currentBranch: string;
+    targetBranch: string;
+    onto: boolean;
+    upstream: string;
+    head: string;
+    safetyTag: string;
+    unpushed: GitCommit[];
+    commits: GitCommit[];
+  }
+): Promise<MoveState> {
+  const merges = await git.exec([
+    "rev-list",
+    "--merges",
+    `${move.upstream}..HEAD`,
+  ]);
+  if (merges.trim() !== "") {
+    throw new ValidationError(
+      "There are merge commits among the unpushed commits; they cannot be cherry-picked one by one"
+    );
+  }
+
+  const oldestFirst = [...move.unpushed].reverse().map((commit) => commit.sha);
+  const moved = new Set(move.commits.map((commit) => commit.sha));
+  const firstMoved = oldestFirst.findIndex((sha) => moved.has(sha));
+  const keepBase = (await git.resolveRef(`${oldestFirst[firstMoved]}^`))!;
+
+  return {
+    currentBranch: move.currentBranch,
+    targetBranch: move.targetBranch,
+    targetBefore: move.onto
+      ? await git.resolveRef(`refs/heads/${move.targetBranch}`)
+      : null,
+    head: move.head,
+    safetyTag: move.safetyTag,
+    moved: oldestFirst.filter((sha) => moved.has(sha)),
+    keepBase,
+    kept: oldestFirst.slice(firstMoved).filter((sha) => !moved.has(sha)),
+    stash: null,
+    phase: "pick-onto-target",
+  };
+}
+
+function reportMove(logger: Logger, state: MoveState, entryId?: number) {
+  logger.success(
+    `✅ Successfully moved ${pluralize(state.moved.length, "commit")} to '${state.targetBranch}'`
+  );
+  logger.info(`\n📝 Summary:`);
+  logger.info(
+    `  • ${state.targetBefore ? "Cherry-picked onto" : "Created branch"}: ${state.targetBranch}`
+  );
+  logger.info(
+    state.kept.length > 0
+      ? `  • Rebuilt ${state.currentBranch} keeping ${pluralize(state.kept.length, "commit")}`
+      : `  • Reset ${state.currentBranch} to: ${shortSha(state.keepBase)}`
+  );
+  logger.info(`  • Currently on: ${state.targetBranch}`);
+  if (state.stash) {
+    logger.info(`  • Uncommitted changes: carried over`);
+  }
+  logger.info(`  • Safety tag: ${state.safetyTag}`);
+  if (entryId) {
+    logger.info(`  • Journal entry: #${entryId}`);
+  }
+
+  logger.info(`\n🚀 Next steps:`);
+  logger.info(`  • Review your commits on '${state.targetBranch}'`);
+  logger.info(`  • Push when ready: git push -u origin ${state.targetBranch}`);
+}
@@ -1,29 +1,146 @@
 import { Command } from "commander";
 import { Git } from "../lib/git.js";
-import { Logger, formatTimestamp } from "../utils.js";
-import { BaseOptions } from "../types.js";
+import { Journal, JournalOperation } from "../lib/journal.js";
+import { resolveBase } from "../lib/base.js";
+import { loadConfig } from "../lib/config.js";
+import { isJsonMode } from "../lib/report.js";
+import {
+  BranchUpdate,
+  PullStrategy,
+  YankState,
+  abortYank,
+  clearYankState,
+  continueYank,
+  fastForwardBranches,
+  integrateArgs,
+  parsePullStrategy,
+  pullConflictError,
+  pullFlags,
+  resolveStashConflicts,
+  restoreStash,
+  saveYankState,
+  yankInProgress,
+} from "../lib/yank.js";
+import { Logger, formatTimestamp, pluralize, shortSha } from "../utils.js";
+import { BaseOptions, ValidationError } from "../types.js";
+
+interface YankOptions extends BaseOptions {
+  yes?: boolean;
+  continue?: boolean;
+  abort?: boolean;
+  all?: boolean;
+  rebase?: boolean;
+  merge?: boolean;
+  ffOnly?: boolean;
+  rebaseMerges?: boolean;
+}
 
 export const yankCommand = new Command("yank")
   .description(
     '"Just let me pull" - stash dirty work, pull with rebase, and restore'
   )
+  .option(
+    "--all",
+    "also fast-forward every other local branch that is behind its upstream"
+  )
+  .option("--rebase", "rebase local commits onto upstream (the default)")
+  .option("--merge", "merge upstream in instead of rebasing")
+  .option("--ff-only", "only fast-forward; stop if the branch diverged")
+  .option("--rebase-merges", "rebase, keeping local merge commits")
+  .option(
+    "--continue",
+    "finish the pull or the stash restore after resolving conflicts"
+  )
+  .option("--abort", "go back to before the pull and restore the stash")
   .option("--yes", "skip confirmation prompts")
   .option("--verbose", "enable verbose logging")
-  .action(async (options: BaseOptions & { yes?: boolean }) => {
+  .action(async (options: YankOptions) => {
     const logger = new Logger(options);
     const git = new Git(logger);
+    let operation: JournalOperation | undefined;
 
     try {
-      // Check if we have upstream
+      if (options.continue || options.abort) {
+        if (options.continue && options.abort) {
+          throw new ValidationError("Use either --continue or --abort");
+        }
+        if (options.abort) {
+          const { state, restored } = await abortYank(git, logger);
+          logger.success(
+            `✅ Yank aborted - '${state.branch}' is back at ${shortSha(state.head)}${
+              state.stash && restored ? " with your changes restored" : ""
+            }`
+          );
+          return;
+        }
+
+        operation = await new Journal(git).begin("yank");
+        const state = await continueYank(git, logger);
+        let restored: boolean;
+        if (state.phase === "restore-stash") {
+          restored = await resolveStashConflicts(git, logger, state, {
+            interactive: interactive(options),
+          });
+        } else {
+          logger.success("✅ Pull completed successfully");
+          restored = await restoreStash(git, logger, state, {
+            interactive: interactive(options),
+          });
+        }
+        await operation.complete();
+        if (restored) {
+          logger.success("🎉 Yank operation completed successfully!");
+        }
+        return;
+      }
+
+      if (await yankInProgress(git)) {
+        throw new ValidationError(
+          "A yank is still in progress. Finish it with --continue or undo it with --abort"
+        );
+      }
+
+      const { values: config } = await loadConfig(git, {
+        pullStrategy: strategyFlag(options),
+      });
+      const strategy = parsePullStrategy(config.pullStrategy);
+
+      // Check if we have upstream, or at least the same branch on a remote.
+      // A default branch found as a base is not something to rebase onto.
       const currentBranch = await git.getCurrentBranch();
-      const upstream = await git.getUpstream(currentBranch);
+      const base = await resolveBase(git, logger, { branch: currentBranch });
+      const upstream =
+        base && (base.source === "upstream" || base.source === "remote-branch")
+          ? base.ref
+          : null;
+      operation = await new Journal(git).begin("yank");
+
+      // --all fetches once and moves the other branches' refs; the current
+      // branch then goes through the usual stash-safe flow below
+      if (options.all) {
+        logger.info("📡 Fetching all remotes...");
+        await git.exec(["fetch", "--all", "--prune"]);
+        reportBranchUpdates(
+          logger,
+          await fastForwardBranches(git, operation, currentBranch)
+        );
+
+        if (!upstream) {
+          logger.warn(
+            `Branch '${currentBranch}' has no upstream configured - leaving it as it is`
+          );
+          await operation.complete();
+          return;
+        }
+      }
 
       if (!upstream) {
         logger.warn(`Branch '${currentBranch}' has no upstream configured`);
         logger.info("Trying to pull anyway...");
 
         try {
-          await git.pull();
+          await git.pull({ flags: pullFlags(strategy) });
+          await operation.complete();
           logger.success("✅ Pulled successfully");
           return;
         } catch (error) {
@@ -34,6 +151,11 @@ export const yankCommand = new Command("yank")
       }
 
       logger.info(`🎣 Yanking latest changes from ${upstream}...`);
+      if (base!.source !== "upstream") {
+        logger.info(
+          `⚠️  No upstream configured, pulling from '${upstream}' (${base!.reason})`
+        );
+      }
 
       // Check working directory status
       const status = await git.getStatus();
@@ -47,7 +169,7 @@ export const yankCommand = new Command("yank")
       logger.verbose(`  Unstaged: ${status.unstaged.length}`);
       logger.verbose(`  Untracked: ${status.untracked.length}`);
 
-      let stashId: string | null = null;
+      let stashSha: string | null = null;
 
       // Stash if needed
       if (hasDirtyWork) {
@@ -55,54 +177,159 @@ export const yankCommand = new Command("yank")
         const stashMessage = `oops-yank-${timestamp}`;
 
         logger.info(`💾 Stashing dirty work...`);
-        stashId = await git.stash(stashMessage);
+        stashSha = await git.stash(stashMessage);
 
-        if (stashId) {
-          logger.success(`✅ Stashed changes as: ${stashMessage}`);
+        if (stashSha) {
+          operation.addStash(stashSha);
+          logger.success(
+            `✅ Stashed changes as: ${stashMessage} (${shortSha(stashSha)})`
+          );
         }
       } else {
         logger.info("📁 Working directory is clean, no stashing needed");
       }
 
-      // Pull with rebase
-      logger.info(`📥 Pulling with rebase from ${upstream}...`);
+      // Recorded so that a conflict can be continued or aborted later
+      const head = (await git.resolveRef("HEAD"))!;
+      const state: YankState = {
+        branch: currentBranch,
+        head,
+        upstream,
+        strategy,
+        stash: stashSha,
+        stashList: await git.listStashes(),
+        phase: "pull",
+      };
+      await saveYankState(git, state);
+
+      logger.info(
+        options.all
+          ? `🔄 ${STRATEGY_VERBS[strategy]} ${upstream}...`
+          : `📥 Pulling (${strategy}) from ${upstream}...`
+      );
 
       try {
-        await git.pull({ rebase: true });
+        if (options.all) {
+          // Already fetched
+          await git.exec(integrateArgs(strategy, upstream));
+        } else {
+          // Without an upstream, name the remote branch explicitly
+          await git.pull(
+            base!.source === "upstream"
+              ? { flags: pullFlags(strategy) }
+              : {
+                  flags: pullFlags(strategy),
+                  remote: base!.remote!,
+                  branch: base!.remoteBranch!,
+                }
+          );
+        }
         logger.success("✅ Pull completed successfully");
-      } catch (error) {
+      } catch (error: any) {
+        if ((await git.rebaseInProgress()) || (await git.mergeInProgress())) {
+          throw pullConflictError(state, error);
+        }
+        await clearYankState(git);
         logger.error(`❌ Pull failed: ${error}`);
 
-        if (stashId) {
+        if (stashSha) {
           logger.info("💾 Your stashed changes are safe");
-          logger.info(`   To restore: git stash pop`);
+          logger.info(`   To restore: git stash apply --index ${stashSha}`);
         }
 
         throw error;
       }
 
-      // Restore stashed changes
-      if (stashId) {
-        logger.info(`📤 Restoring stashed changes...`);
+      await clearYankState(git);
 
-        try {
-          await git.stashPop();
-          logger.success("✅ Stashed changes restored successfully");
-        } catch (error: any) {
-          logger.error(`❌ Failed to restore stashed changes: ${error}`);
-          logger.info("\n🔧 To restore your changes manually:");
-          logger.info("   • Try again: git stash pop");
-          logger.info("   • Or view stash: git stash show -p");
-
-          logger.warn("⚠️  Pull succeeded but stash restoration failed");
-          return;
-        }
-      }
+      // Restore stashed changes
+      const restored = await restoreStash(git, logger, state, {
+        interactive: interactive(options),
+      });
+      await operation.complete();
+      if (!restored) return;
 
       // Success!
       logger.success("🎉 Yank operation completed successfully!");
     } catch (error) {
+      await operation?.fail(error);
       logger.error(`Yank operation failed: ${error}`);
       throw error;
     }
   });
+
+const STRATEGY_VERBS: Record<PullStrategy, string> = {
+  rebase: "Rebasing onto",
+  "rebase-merges": "Rebasing (keeping merges) onto",
+  merge: "Merging",
+  "ff-only": "Fast-forwarding to",
+};
+
+// At most one strategy flag; none leaves it to oops.pullStrategy
+function strategyFlag(options: YankOptions): PullStrategy | undefined {
+  const given = (
+    [
+      ["rebase", options.rebase],
+      ["merge", options.merge],
+      ["ff-only", options.ffOnly],
+      ["rebase-merges", options.rebaseMerges],
+    ] as Array<[PullStrategy, boolean | undefined]>
+  ).filter(([, set]) => set);
+
+  if (given.length > 1) {
+    throw new ValidationError(
+      `Choose one pull strategy, not ${given
+        .map(([strategy]) => `--${strategy}`)
+        .join(" and ")}`
+    );
+  }
+  return given[0]?.[0];
+}
+
+// Conflicted files are offered one by one unless prompts are off
+function interactive(options: YankOptions): boolean {
+  return !options.yes && !isJsonMode();
+}
+
+function reportBranchUpdates(logger: Logger, updates: BranchUpdate[]) {
+  const updated = updates.filter(
+    (update) => update.result === "fast-forwarded"
+  );
+  const current = updates.filter(
+    (update) => update.result === "up-to-date" || update.result === "ahead"
+  );
+  const skipped = updates.filter(
+    (update) => !updated.includes(update) && !current.includes(update)
+  );
+
+  if (updated.length > 0) {
+    logger.success(
+      `⏩ Fast-forwarded ${pluralize(updated.length, "branch", "branches")}:`
+    );
+    for (const update of updated) {
+      logger.info(`  • ${update.branch} (${update.detail})`);
+    }
+  }
+  if (current.length > 0) {
+    logger.info(
+      `✅ ${pluralize(current.length, "branch", "branches")} already up to date with ${
+        current.length === 1 ? "its upstream" : "their upstreams"
+      }`
+    );
+  }
+  if (skipped.length > 0) {
+    logger.warn(
+      `Left ${pluralize(skipped.length, "branch", "branches")} alone:`
+    );
+    const reasons: Record<string, (update: BranchUpdate) => string> = {
+      diverged: (update) =>
+        `diverged from ${update.upstream} (${update.detail})`,
+      gone: (update) => `upstream ${update.upstream} is gone`,
+      "no-upstream": () => "no upstream configured",
+      "checked-out": (update) => `checked out in ${update.detail}`,
+    };
+    for (const update of skipped) {
+      logger.info(`  • ${update.branch}: ${reasons[update.result](update)}`);
+    }
+  }
+}
@@ -31,12 +31,23 @@ Perfect for when you:
 
 Safety features:
 • Creates backup tags before any destructive operations
-• Warns about protected branches (main/master/develop)
-• Shows you exactly what will happen before doing it`,
+• Shows what happens to protected branches (oops.protectedBranches) and asks first
+• Uncommitted changes (staged and unstaged) move along to the new branch
+• Shows you exactly what will happen before doing it
+• If any step fails, the branch, index and working tree are put back
+
+Moving only some commits (--last, --pick) or onto a branch that already exists
+(--onto) cherry-picks them. If a cherry-pick stops on a conflict, resolve it,
+stage the files and run --continue, or put both branches back with --abort.
+
+Generated branch names use oops.branchPrefix (default "fix/") and are cut to
+oops.branchMaxLength characters. See: git oops config`,
     usage: [
       "git oops wrong-branch [new-branch-name]",
       "git oops wrong-branch feature/my-fix",
       "git oops wrong-branch --dry-run",
+      "git oops wrong-branch --onto <branch> [--last <n> | --pick [commits]]",
+      "git oops wrong-branch --continue | --abort",
     ],
     examples: [
       {
@@ -51,8 +62,41 @@ Safety features:
         command: "git oops wrong-branch --dry-run",
         description: "See what would happen without making changes",
       },
+      {
+        command: "git oops wrong-branch --last 2 feature/auth-fix",
+        description: "Move only the last 2 commits, keep the rest",
+      },
+      {
+        command: "git oops wrong-branch --onto feature/auth",
+        description: "Cherry-pick the commits onto an existing branch",
+      },
     ],
     options: [
+      {
+        flag: "--prefix <prefix>",
+        description: "Prefix for the generated branch name (default: fix/)",
+      },
+      {
+        flag: "--onto <branch>",
+        description: "Cherry-pick the commits onto an existing branch",
+      },
+      {
+        flag: "--last <n>",
+        description: "Move only the last N commits",
+      },
+      {
+        flag: "--pick [commits]",
+        description:
+          "Move only these commits (comma-separated shas or revisions such as HEAD~1), or pick them interactively",
+      },
+      {
+        flag: "--continue",
+        description: "Carry on after resolving a cherry-pick conflict",
+      },
+      {
+        flag: "--abort",
+        description: "Give up a stopped move and restore both branches",
+      },
       {
         flag: "--dry-run",
         description: "Show what would be done without executing",
@@ -69,11 +113,33 @@ Safety features:
   },
   split: {
     name: "split",
-    description: "Split staged changes into separate commits by directory",
+    description: "Split staged changes into separate commits by group",
     longDescription: `
 📁 Split your messy staged changes into clean, organized commits automatically!
 Groups files by their top-level directory and creates separate commits for each.
 
+Other grouping strategies (--by, or oops.splitStrategy):
+• directory   Leading path segments; --depth 2 splits packages/a from packages/b
+• workspace   npm/yarn workspaces from package.json, or pnpm-workspace.yaml
+• codeowners  Files with the same CODEOWNERS owners go together
+• type        tests, docs, config and source buckets
+• glob        Your own glob=group rules from oops.splitGroups
+
+--dry-run shows each group and why its files ended up there.
+
+With --hunks, modified files are split hunk by hunk using exactly the staged
+content. Hunks follow their file's group; add --interactive to pick a group
+(or a new one) for every hunk, e.g. to separate a refactor from a bug fix in
+the same file.
+
+Commit messages are generated from each group's staged diff: a conventional
+type (test, docs, ci, build, feat, fix...), the group as scope, and a summary
+naming the files or functions touched. Change the format with
+--message-template (or oops.splitMessage). If oops.messageProvider names a
+command, it is asked for each message instead (see 'git oops help save').
+--edit lets you accept, edit or reject each suggestion. --dry-run shows the
+built-in suggestions without running the provider or prompting.
+
 Perfect for when you:
 • Made changes across multiple components/modules
 • Want to organize commits by feature area
@@ -81,11 +147,18 @@ Perfect for when you:
 • Follow conventional commit practices
 
 The tool intelligently groups files and suggests meaningful commit messages
-for each directory, making your Git history clean and reviewable.`,
+for each directory, making your Git history clean and reviewable.
+
+All commits are built in a scratch index (pre-commit and commit-msg hooks still
+run) and the branch moves only once, at the end. If anything fails or you press
+Ctrl-C, HEAD, the index and the working tree are exactly as before. Changes you
+did not stage stay unstaged.`,
     usage: [
       "git oops split",
       "git oops split --dry-run",
       "git oops split --yes",
+      "git oops split --by <strategy> [--depth <n>]",
+      "git oops split --hunks [--interactive]",
     ],
     examples: [
       {
@@ -100,8 +173,51 @@ for each directory, making your Git history clean and reviewable.`,
         command: "git oops split --yes",
         description: "Split without confirmation prompts",
       },
+      {
+        command: "git oops split --by workspace --dry-run",
+        description: "Preview one commit per monorepo package",
+      },
+      {
+        command: "git oops split --depth 2",
+        description: "Group by the first two path segments",
+      },
+      {
+        command: "git oops split -i",
+        description: "Choose a commit for every staged hunk",
+      },
+      {
+        command: 'git oops split --message-template "[{scope}] {summary}"',
+        description: "Use your team's message format",
+      },
     ],
     options: [
+      {
+        flag: "--by <strategy>",
+        description:
+          "directory, workspace, codeowners, type or glob (default: directory)",
+      },
+      {
+        flag: "--depth <n>",
+        description: "Path segments per group for --by directory (default: 1)",
+      },
+      {
+        flag: "--hunks",
+        description: "Split modified files hunk by hunk",
+      },
+      {
+        flag: "-i, --interactive",
+        description: "Pick a group for every hunk (implies --hunks)",
+      },
+      {
+        flag: "--message-template <template>",
+        description:
+          "Message format using {type}, {scope}, {summary}, {files} (default: {type}({scope}): {summary})",
+      },
+      {
+        flag: "--edit",
+        description:
+          "Accept, edit or reject each suggested message before committing",
+      },
       {
         flag: "--dry-run",
         description: "Show what would be done without executing",
@@ -130,11 +246,39 @@ The process:
 3. Attempts to restore your changes
 4. Handles conflicts gracefully with clear instructions
 
+The pull rebases by default. --merge, --ff-only and --rebase-merges pick
+another strategy, and oops.pullStrategy changes the default.
+
+If the pull stops on a conflict, your work stays stashed and yank remembers
+where it started (in .git/oops/). Resolve and stage the files, then run
+--continue to finish and restore the stash, or --abort to go back to the
+original HEAD with the stash reapplied exactly, staged changes included.
+
+If the stash itself conflicts with upstream, it stays on the stash list and
+each conflicted file is offered as: take mine, take upstream, or open the
+merge tool (with --yes, the commands are listed instead). The stash is only
+dropped once no file is left conflicted; --continue and --abort work here too.
+
+The stash is tracked by its commit SHA, not by its place on the stash list.
+If the list changed while yank ran, it leaves the stash alone and prints how
+to restore it instead of guessing.
+
+--all fetches every remote once and fast-forwards each other local branch
+whose upstream is strictly ahead by moving its ref, without checking it out.
+Branches that diverged, whose upstream is gone, or that are checked out in
+another worktree are listed and left alone.
+
 Perfect for:
 • Getting latest changes before pushing
 • Resolving "would be overwritten by merge" errors
 • Daily workflow to stay up to date`,
-    usage: ["git oops yank", "git oops yank --dry-run"],
+    usage: [
+      "git oops yank",
+      "git oops yank --dry-run",
+      "git oops yank --all",
+      "git oops yank --merge | --ff-only | --rebase-merges",
+      "git oops yank --continue | --abort",
+    ],
     examples: [
       {
         command: "git oops yank",
@@ -144,8 +288,50 @@ Perfect for:
         command: "git oops yank --dry-run",
         description: "See what would happen without making changes",
       },
+      {
+        command: "git oops yank --all",
+        description: "Also fast-forward every local branch behind its upstream",
+      },
+      {
+        command: "git oops yank --ff-only",
+        description: "Only fast-forward; stop if the branch diverged",
+      },
+      {
+        command: "git oops yank --continue",
+        description: "Finish after resolving pull or stash conflicts",
+      },
     ],
     options: [
+      {
+        flag: "--all",
+        description:
+          "Fast-forward the other local branches too, without checking them out",
+      },
+      {
+        flag: "--rebase",
+        description: "Rebase local commits onto upstream (default)",
+      },
+      {
+        flag: "--merge",
+        description: "Merge upstream in instead of rebasing",
+      },
+      {
+        flag: "--ff-only",
+        description: "Only fast-forward; stop if the branch diverged",
+      },
+      {
+        flag: "--rebase-merges",
+        description: "Rebase, keeping local merge commits",
+      },
+      {
+        flag: "--continue",
+        description:
+          "Finish the pull or stash restore after resolving conflicts",
+      },
+      {
+        flag: "--abort",
+        description: "Go back to before the pull and restore the stash",
+      },
       {
         flag: "--yes",
         description: "Skip confirmation prompts",
@@ -166,11 +352,24 @@ for backup without triggering CI.
 
 Features:
 • Saves complete working state (staged, unstaged, untracked)
-• Creates refs at refs/pocket/branch-name
+• --include-ignored also saves ignored files such as local .env files
+• Verifies the snapshot before cleaning anything; nested repos are skipped
+• Keeps a stack of pockets per branch at refs/pocket/<branch>/<timestamp>
 • Optionally push to remote for backup
 • Doesn't trigger CI/CD (uses hidden refs)
 • Cleans working directory after saving
 
+Subcommands:
+• list              Pockets saved for this branch (--all for every branch)
+• drop [n]          Delete pocket n (default: newest)
+• ls-remote [remote]          Pockets pushed by anyone on the team
+• fetch <user>/<branch> [remote]  Restore a pushed pocket (--branch for a branch)
+
+Pushed pockets are namespaced as refs/pocket/<user>/<branch>/<timestamp>
+(user from user.email), so teammates never overwrite each other.
+
+Restore a pocket with 'git oops unpocket [n]'.
+
 Perfect for:
 • Creating quick backups before risky operations
 • Sharing WIP state with teammates
@@ -178,27 +377,54 @@ Perfect for:
 • Creating checkpoints during development`,
     usage: [
       "git oops pocket",
+      'git oops pocket -m "half-done refactor"',
+      "git oops pocket --include-ignored",
       "git oops pocket --push",
-      "git oops pocket --push origin",
+      "git oops pocket list",
+      "git oops pocket drop [n]",
+      "git oops pocket ls-remote [remote]",
+      "git oops pocket fetch <user>/<branch> [remote] [--branch [name]]",
     ],
     examples: [
       {
         command: "git oops pocket",
         description: "Save current state locally and clean directory",
       },
+      {
+        command: 'git oops pocket -m "spike: new parser"',
+        description: "Save with a message shown in 'pocket list'",
+      },
       {
         command: "git oops pocket --push",
         description: "Save and push to origin remote for backup",
       },
       {
-        command: "git oops pocket --push upstream",
-        description: "Save and push to specific remote",
+        command: "git oops pocket list",
+        description: "Show the pocket stack for the current branch",
+      },
+      {
+        command: "git oops pocket drop 1",
+        description: "Delete the second-newest pocket",
+      },
+      {
+        command: "git oops pocket fetch alice/main --branch",
+        description:
+          "Restore alice's pushed pocket as branch pocket/alice/main",
       },
     ],
     options: [
+      {
+        flag: "-m, --message <message>",
+        description: "Describe what is in the pocket",
+      },
+      {
+        flag: "--include-ignored",
+        description: "Also save (and clean) ignored files",
+      },
       {
         flag: "--push [remote]",
-        description: "Push pocket ref to remote (default: origin)",
+        description:
+          "Push pocket to refs/pocket/<user>/... on remote (default: origin)",
       },
       {
         flag: "--yes",
@@ -210,14 +436,69 @@ Perfect for:
       },
     ],
   },
+  unpocket: {
+    name: "unpocket",
+    description: "Restore a pocket saved with 'git oops pocket'",
+    longDescription: `
+📤 Bring back a pocketed working state: staged, unstaged and untracked
+changes are restored exactly as they were saved, and the pocket is dropped.
+
+Safety features:
+• Refuses to run when the working tree has uncommitted changes
+• Warns when HEAD has moved since the pocket was saved
+• Keeps the pocket if restoring fails
+• Journaled, so 'git oops rollback' can bring a dropped pocket back`,
+    usage: [
+      "git oops unpocket",
+      "git oops unpocket 2",
+      "git oops unpocket --keep",
+    ],
+    examples: [
+      {
+        command: "git oops unpocket",
+        description: "Restore and drop the newest pocket",
+      },
+      {
+        command: "git oops unpocket 1 --keep",
+        description: "Restore the second-newest pocket but keep it saved",
+      },
+    ],
+    options: [
+      {
+        flag: "--keep",
+        description: "Keep the pocket after restoring it",
+      },
+      {
+        flag: "--dry-run",
+        description: "Show what would be done without executing",
+      },
+      {
+        flag: "--verbose",
+        description: "Enable verbose logging",
+      },
+    ],
+  },
   "revert-merge": {
     name: "revert-merge",
     description: "Safely revert merge commits with checks and backups",
     longDescription: `
 ↩️  Safely revert merge commits without breaking your repository. This wraps
-'git revert -m 1' with safety checks, validation, and clear explanations
+'git revert -m' with safety checks, validation, and clear explanations
 of what's happening.
 
+The mainline (the parent to go back to) is the one on the current branch's
+first-parent history, so merges made the other way round, e.g. main merged
+into a feature branch that was later merged back, revert the right side.
+Each parent is shown with its branch name, taken from the merge message or
+a reflog, and the diffstat that reverting to it would undo. You are only
+asked when no single parent is on the current branch; --mainline overrides.
+
+Merging the same branch again after a revert brings in nothing, because git
+sees its commits as merged already. --reland <revert-sha> reverts the revert
+instead (a merge SHA works too: its revert is looked up on the current
+branch), then offers to merge the commits the branch gained since, behind a
+safety tag. --no-newer leaves those out.
+
 Why this is safer than raw 'git revert':
 • Validates the commit is actually a merge
 • Explains mainline selection (which parent to revert to)
@@ -233,6 +514,7 @@ Perfect for:
       "git oops revert-merge <merge-sha>",
       "git oops revert-merge abc1234",
       "git oops revert-merge abc1234 --mainline 2",
+      "git oops revert-merge --reland def5678",
     ],
     examples: [
       {
@@ -247,11 +529,25 @@ Perfect for:
         command: "git oops revert-merge abc1234 -m 2",
         description: "Revert to the second parent instead of first",
       },
+      {
+        command: "git oops revert-merge --reland def5678",
+        description: "Bring back the merge reverted by def5678",
+      },
     ],
     options: [
       {
         flag: "-m, --mainline <parent>",
-        description: "Parent number to revert to (default: 1)",
+        description:
+          "Parent number to revert to (default: the parent on the current branch)",
+      },
+      {
+        flag: "--reland <revert-sha>",
+        description: "Bring a reverted merge back by reverting its revert",
+      },
+      {
+        flag: "--no-newer",
+        description:
+          "With --reland, leave out commits the branch gained since the merge",
       },
       {
         flag: "--dry-run",
@@ -338,10 +634,25 @@ Perfect for:
 • Fixing typos or small bugs in recent commits
 • Adding forgotten files to the last commit
 • Updating commit messages
-• Cleaning up work before pushing`,
+• Cleaning up work before pushing
+
+Older commits:
+--to <commit> fixes a commit further back (a sha, a ref such as HEAD~3, or
+:/text for the newest commit whose message matches). The changes become a
+"fixup!" commit (or "amend!" with --message) and a non-interactive
+'git rebase --autosquash' folds it in, rebasing only the commits after the
+target. A safety tag is created first. Commits already on the upstream, or
+followed by merge commits, are refused. If the rebase stops on a conflict,
+resolve it and run 'git rebase --continue', or 'git rebase --abort'.
+
+--suggest asks the message provider (see 'git oops help save') to describe the
+commit as it will be after the fixup. Rejecting the suggestion keeps the
+current message.`,
     usage: [
       "git oops fixup",
       'git oops fixup -m "Better commit message"',
+      "git oops fixup --suggest",
+      "git oops fixup --to <commit> [-m <message>]",
       "git oops fixup --no-edit",
     ],
     examples: [
@@ -357,12 +668,81 @@ Perfect for:
         command: "git oops fixup --dry-run",
         description: "Preview what would be amended",
       },
+      {
+        command: "git add src/parse.ts; git oops fixup --to :/parser",
+        description:
+          "Fold the change into the newest commit mentioning 'parser'",
+      },
     ],
     options: [
+      {
+        flag: "--to <commit>",
+        description: "Fix an older unpushed commit (sha, ref or :/subject)",
+      },
       {
         flag: "-m, --message <message>",
         description: "New commit message for the amendment",
       },
+      {
+        flag: "--suggest",
+        description: "Ask the message provider for a new message",
+      },
+      {
+        flag: "--dry-run",
+        description: "Show what would be done without executing",
+      },
+      {
+        flag: "--yes",
+        description: "Skip confirmation prompts",
+      },
+      {
+        flag: "--verbose",
+        description: "Enable verbose logging",
+      },
+    ],
+  },
+  absorb: {
+    name: "absorb",
+    description: "Route staged hunks into fixups for the commits they fix",
+    longDescription: `
+🧽 Staged a handful of small fixes for different commits on your branch?
+absorb works out where each one belongs and creates the fixup commits for you,
+like 'git absorb'.
+
+How it works:
+• Every staged hunk is blamed over upstream..HEAD: the unpushed commit that
+  last touched its lines (for pure insertions, the lines around it) owns it
+• Hunks of the same owner go into one "fixup! <sha>" commit
+• Hunks touching lines from several commits or from commits already on the
+  upstream, and new, deleted or binary files, stay staged and are listed
+• --and-rebase folds the fixups in right away with a non-interactive
+  'git rebase --autosquash' (after a safety tag); otherwise run it yourself.
+  Like fixup --to, it refuses when merge commits follow the oldest target
+
+The fixup commits are built in a scratch index, so the hunks that are not
+absorbed stay staged exactly as they were. With --and-rebase they are set
+aside during the rebase and put back with their index, still staged. The
+branch needs an upstream to tell unpushed commits from pushed ones.`,
+    usage: [
+      "git oops absorb",
+      "git oops absorb --and-rebase",
+      "git oops absorb --dry-run",
+    ],
+    examples: [
+      {
+        command: "git add -p; git oops absorb --dry-run",
+        description: "See which commit each staged hunk belongs to",
+      },
+      {
+        command: "git oops absorb -r",
+        description: "Create the fixups and squash them in",
+      },
+    ],
+    options: [
+      {
+        flag: "-r, --and-rebase",
+        description: "Fold the fixups in with an autosquash rebase",
+      },
       {
         flag: "--dry-run",
         description: "Show what would be done without executing",
@@ -396,10 +776,20 @@ Perfect for:
 • Quick work-in-progress saves
 • End-of-day checkpoints
 • Before switching contexts
-• Creating safe points before experiments`,
+• Creating safe points before experiments
+
+Suggested messages:
+--suggest describes the changes instead of using the WIP message. By default a
+built-in heuristic writes a conventional message from the diff. Set
+oops.messageProvider to a shell command to use your own tool: it receives a
+JSON object on stdin (command, branch, scope, files, diff, heuristic and, for
+fixup, previousMessage) and prints the message, either as plain text or as
+{"message": "..."}. You can accept, edit or reject the suggestion; with --yes
+it is used as is. If the command fails, the heuristic message is used.`,
     usage: [
       "git oops save",
       'git oops save -m "WIP: working on auth"',
+      "git oops save --suggest",
       "git oops save --yes",
     ],
     examples: [
@@ -415,11 +805,21 @@ Perfect for:
         command: "git oops save --yes",
         description: "Save without confirmation prompt",
       },
+      {
+        command:
+          "git config oops.messageProvider ./scripts/suggest-message; git oops save --suggest",
+        description: "Let your own tool write the commit message",
+      },
     ],
     options: [
       {
         flag: "-m, --message <message>",
-        description: "Commit message (default: 'WIP: quick save')",
+        description:
+          "Commit message (default: oops.saveMessage, 'WIP: quick save')",
+      },
+      {
+        flag: "--suggest",
+        description: "Ask the message provider for a commit message",
       },
       {
         flag: "--yes",
@@ -431,6 +831,255 @@ Perfect for:
       },
     ],
   },
+  history: {
+    name: "history",
+    description: "List operations recorded in the git-oops journal",
+    longDescription: `
+📜 Every command that changes refs appends an entry to a journal stored in
+.git/oops/. Each entry records the command, its arguments, the branch, HEAD
+and index before and after, and any safety tags or stashes it created.
+
+Perfect for:
+• Finding out what a git-oops command actually did
+• Looking up the id to pass to 'git oops rollback'
+• Recovering a safety tag name you didn't write down`,
+    usage: ["git oops history", "git oops history -n 5"],
+    examples: [
+      {
+        command: "git oops history",
+        description: "Show the 20 most recent operations",
+      },
+      {
+        command: "git oops history -n 5",
+        description: "Show only the last 5 operations",
+      },
+    ],
+    options: [
+      {
+        flag: "-n, --limit <number>",
+        description: "Number of entries to show (default: 20)",
+      },
+      {
+        flag: "--verbose",
+        description: "Enable verbose logging",
+      },
+    ],
+  },
+  rollback: {
+    name: "rollback",
+    description: "Put the refs touched by an operation back",
+    longDescription: `
+🔙 Undo any journaled git-oops operation. Branches, HEAD and the index are
+restored to the "before" state recorded in the journal, and branches the
+operation created are deleted.
+
+Safety features:
+• Local edits are kept; rollback refuses if they would be overwritten
+• Warns when a ref has moved since the operation ran
+• The rollback itself is journaled, so it can be rolled back too`,
+    usage: ["git oops rollback <id>", "git oops rollback 3 --dry-run"],
+    examples: [
+      {
+        command: "git oops rollback 3",
+        description: "Restore the state from before operation #3",
+      },
+      {
+        command: "git oops rollback 3 --dry-run",
+        description: "Show which refs would be restored",
+      },
+    ],
+    options: [
+      {
+        flag: "--dry-run",
+        description: "Show what would be done without executing",
+      },
+      {
+        flag: "--yes",
+        description: "Skip confirmation prompts",
+      },
+      {
+        flag: "--verbose",
+        description: "Enable verbose logging",
+      },
+    ],
+  },
+  tags: {
+    name: "tags",
+    description: "List, inspect, restore and prune safety tags",
+    longDescription: `
+🏷️  Manage the oops/* safety tags created by undo, revert-merge and other
+destructive commands, so they don't pile up forever.
+
+Subcommands:
+• list              Every oops/* tag with its operation, age and diff to HEAD
+• show <tag>        Commits and files that differ between HEAD and the tag
+• restore <tag>     Reset the current branch to the tag (with a new safety tag)
+• prune             Delete tags by age (--older-than) or count (--keep)
+
+Safety features:
+• Restore warns before dropping pushed commits and keeps local changes
+• Prune keeps tags whose commits no branch contains, unless told otherwise
+• Pruned tags are journaled and can be brought back with 'git oops rollback'`,
+    usage: [
+      "git oops tags list",
+      "git oops tags show <tag>",
+      "git oops tags restore <tag>",
+      "git oops tags prune --older-than 30",
+    ],
+    examples: [
+      {
+        command: "git oops tags",
+        description: "List all safety tags",
+      },
+      {
+        command:
+          "git oops tags restore oops/undo-1-commits-20240101-120000-abc123",
+        description: "Put the current branch back where it was before an undo",
+      },
+      {
+        command: "git oops tags prune --older-than 30 --keep 5",
+        description:
+          "Delete tags older than 30 days, always keeping the newest 5",
+      },
+    ],
+    options: [
+      {
+        flag: "--older-than <days>",
+        description: "prune: delete tags older than this many days",
+      },
+      {
+        flag: "--keep <count>",
+        description: "prune: keep only the newest <count> tags",
+      },
+      {
+        flag: "--include-unreachable",
+        description: "prune: also delete tags no branch contains",
+      },
+      {
+        flag: "--dry-run",
+        description: "Show what would be done without executing",
+      },
+      {
+        flag: "--yes",
+        description: "Skip confirmation prompts",
+      },
+    ],
+  },
+  rescue: {
+    name: "rescue",
+    description: "Find and recover lost commits, stashes and deleted branches",
+    longDescription: `
+🛟 Lost work after 'reset --hard', 'stash drop' or 'branch -D' is usually
+still in the repository, just unreachable. Rescue searches the HEAD and
+branch reflogs plus 'git fsck --unreachable' and lists what no ref can reach
+any more, newest first.
+
+Each candidate shows:
+• Kind: stash-like, reflog entry or dangling commit
+• Subject, age and where it was found (e.g. HEAD@{3})
+• Diffstat against its parent
+
+Recover one as:
+• --branch [name]   A branch (stashes become a commit on their base)
+• --stash           The newest stash entry
+• --pocket          A pocket on the current branch (see: git oops unpocket)
+
+Rescue only ever adds refs, and each recovery is journaled.`,
+    usage: [
+      "git oops rescue",
+      "git oops rescue <n|sha> --branch [name]",
+      "git oops rescue <n|sha> --stash",
+      "git oops rescue <n|sha> --pocket",
+    ],
+    examples: [
+      {
+        command: "git oops rescue",
+        description: "List lost commits and stashes, newest first",
+      },
+      {
+        command: "git oops rescue 0 --branch my-work",
+        description: "Bring back the newest lost commit as branch my-work",
+      },
+      {
+        command: "git oops rescue 2 --stash",
+        description: "Put a dropped stash back on the stash list",
+      },
+    ],
+    options: [
+      {
+        flag: "-n, --limit <number>",
+        description: "Number of candidates to show (default: 20)",
+      },
+      {
+        flag: "--branch [name]",
+        description: "Recover as a branch (default: rescue/<sha>)",
+      },
+      {
+        flag: "--stash",
+        description: "Recover as a stash entry",
+      },
+      {
+        flag: "--pocket",
+        description: "Recover as a pocket on the current branch",
+      },
+      {
+        flag: "--dry-run",
+        description: "Show what would be done without executing",
+      },
+    ],
+  },
+  config: {
+    name: "config",
+    description: "Show effective git-oops settings and where they come from",
+    longDescription: `
+⚙️  git-oops settings are resolved in layers, later ones winning:
+
+1. Built-in defaults
+2. git config: oops.<key> (system, global or local)
+3. .gitoopsrc: a JSON object at the repository root
+4. Environment: GIT_OOPS_<KEY>, e.g. GIT_OOPS_BRANCH_PREFIX
+5. Command-line flags, e.g. wrong-branch --prefix
+
+Settings:
+• protectedBranches  Branch patterns (* wildcards) needing extra confirmation
+• defaultBranches    Branch patterns that may be the base without an upstream
+• baseBranch         Base to use without an upstream (detected)
+• branchPrefix       Prefix for branches named by wrong-branch (fix/)
+• branchMaxLength    Maximum length of generated branch names (50)
+• splitMessage       Split message template ({type}({scope}): {summary})
+• splitStrategy      How split groups files (directory)
+• splitDepth         Path segments per directory group (1)
+• splitGroups        glob=group rules for split --by glob
+• saveMessage        Default save message (WIP: quick save)
+• pullStrategy       How yank brings in upstream changes (rebase)
+• messageProvider    Command suggesting commit messages (built-in heuristic)
+• remote             Remote for pocket --push, ls-remote and fetch (origin)
+• pocketUser         Namespace for pushed pockets (from user.email)
+
+Lists take comma-separated values in git config and the environment, or a
+JSON array in .gitoopsrc.`,
+    usage: ["git oops config", "git oops config list"],
+    examples: [
+      {
+        command: "git oops config list",
+        description: "Show every setting with its value and source",
+      },
+      {
+        command: "git config --global oops.branchPrefix feat/",
+        description: "Name wrong-branch branches feat/<subject> everywhere",
+      },
+      {
+        command: `echo '{"protectedBranches": ["main", "release/*"]}' > .gitoopsrc`,
+        description: "Set protected branches for this repository",
+      },
+    ],
+    options: [
+      {
+        flag: "--verbose",
+        description: "Also describe each setting and its environment variable",
+      },
+    ],
+  },
 };
 
 export function formatMainHelp(program: Command): string {
@@ -467,6 +1116,7 @@ ${chalk.cyan.bold("GLOBAL OPTIONS")}
   ${chalk.white("--version")}             Show version
   ${chalk.white("--verbose")}             Enable verbose logging
   ${chalk.white("--no-color")}            Disable colored output
+  ${chalk.white("--json")}                Print one machine-readable result object
 
 ${chalk.cyan.bold("EXAMPLES")}
   ${chalk.white("git oops wrong-branch feature/fix")}   ${chalk.gray(
@@ -0,0 +1,124 @@
+import { Git } from "./git.js";
+import { StagedHunk, listStagedHunks } from "./split.js";
+import { pluralize, shortSha } from "../utils.js";
+
+// An unpushed commit and the staged hunks that fix it
+export interface AbsorbTarget {
+  sha: string;
+  subject: string;
+  hunks: StagedHunk[];
+}
+
+// Staged changes that stay staged, and why
+export interface UnabsorbedChange {
+  file: string;
+  // Missing for changes that only move as whole files
+  header?: string;
+  reason: string;
+}
+
+export interface AbsorbPlan {
+  // Oldest commit first
+  targets: AbsorbTarget[];
+  unabsorbed: UnabsorbedChange[];
+}
+
+// Work out which commit in upstream..HEAD each staged hunk belongs to: the
+// one that last touched the lines it changes (for pure insertions, the lines
+// around it). Hunks whose lines come from several commits, or from commits
+// already on the upstream, have no single owner and are left alone.
+export async function planAbsorb(
+  repo: Git,
+  upstream: string
+): Promise<AbsorbPlan> {
+  const git = await repo.atTopLevel();
+  const changes = await listStagedHunks(git);
+  const commits = await git.getCommits(`${upstream}..HEAD`);
+  const plan: AbsorbPlan = { targets: [], unabsorbed: [] };
+
+  for (const file of changes.files) {
+    plan.unabsorbed.push({
+      file,
+      reason: "added, deleted, binary or mode change",
+    });
+  }
+
+  const owners = new Map<string, StagedHunk[]>();
+  for (const hunk of changes.hunks) {
+    const blamed = await blameHunk(git, upstream, hunk);
+    if ("reason" in blamed) {
+      plan.unabsorbed.push({
+        file: hunk.file,
+        header: hunk.header,
+        reason: blamed.reason,
+      });
+      continue;
+    }
+    owners.set(blamed.owner, [...(owners.get(blamed.owner) ?? []), hunk]);
+  }
+
+  // getCommits lists newest first
+  for (const commit of [...commits].reverse()) {
+    const hunks = owners.get(commit.sha);
+    if (hunks) {
+      plan.targets.push({ sha: commit.sha, subject: commit.subject, hunks });
+    }
+  }
+
+  return plan;
+}
+
+// The single unpushed commit owning a hunk's lines, or why there is none
+async function blameHunk(
+  git: Git,
+  upstream: string,
+  hunk: StagedHunk
+): Promise<{ owner: string } | { reason: string }> {
+  let first = hunk.oldStart;
+  let last = hunk.oldStart + hunk.oldCount - 1;
+
+  if (hunk.oldCount === 0) {
+    // Pure insertion after line oldStart: look at the lines on either side
+    const lineCount =
+      (
+        await git.exec(["cat-file", "blob", `HEAD:${hunk.file}`], { raw: true })
+      ).split("\n").length - 1;
+    first = Math.max(hunk.oldStart, 1);
+    last = Math.min(hunk.oldStart + 1, lineCount);
+    if (first > last) return { reason: "no surrounding lines to go by" };
+  }
+
+  const blame = await git.exec([
+    "blame",
+    "--line-porcelain",
+    "-L",
+    `${first},${last}`,
+    `${upstream}..HEAD`,
+    "--",
+    hunk.file,
+  ]);
+
+  const shas = new Set<string>();
+  let pushed = false;
+  for (const line of blame.split("\n")) {
+    const header = line.match(/^([0-9a-f]{40}) \d+ \d+/);
+    if (header) {
+      shas.add(header[1]);
+    } else if (line === "boundary") {
+      pushed = true;
+    }
+  }
+
+  if (pushed) {
+    return { reason: `touches lines already on ${upstream}` };
+  }
+  if (shas.size > 1) {
+    return {
+      reason: `touches lines from ${pluralize(shas.size, "commit")} (${[...shas]
+        .map(shortSha)
+        .join(", ")})`,
+    };
+  }
+  const [owner] = shas;
+  return owner ? { owner } : { reason: "no lines to go by" };
+}
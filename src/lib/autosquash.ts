@@ -0,0 +1,77 @@
+import { Git } from "./git.js";
+import { shortSha } from "../utils.js";
+import { ConflictError, ValidationError } from "../types.js";
+
+// Resolve a commit the user named (sha, ref or ":/subject") and make sure it
+// may be rewritten: it is in the history of HEAD, not yet on the upstream,
+// and no merge commits follow it
+export async function resolveRewritableCommit(
+  git: Git,
+  rev: string,
+  upstream: string | null
+): Promise<string> {
+  // Peel separately: "^{commit}" would become part of a :/subject pattern
+  const resolved = await git.resolveRef(rev);
+  const sha = resolved && (await git.resolveRef(`${resolved}^{commit}`));
+  if (!sha) {
+    throw new ValidationError(`No commit matches '${rev}'`);
+  }
+
+  if (!(await git.isAncestor(sha, "HEAD"))) {
+    throw new ValidationError(
+      `Commit ${shortSha(sha)} is not in the history of the current branch`
+    );
+  }
+
+  if (upstream && (await git.isAncestor(sha, upstream))) {
+    throw new ValidationError(
+      `Commit ${shortSha(sha)} is already on ${upstream}. Rewriting it would need a force-push; make a new commit instead`
+    );
+  }
+
+  const merges = await git.exec(["rev-list", "--merges", `${sha}..HEAD`]);
+  if (merges.trim() !== "") {
+    throw new ValidationError(
+      `There are merge commits after ${shortSha(sha)}; fix it up by hand with: git rebase -i --rebase-merges ${shortSha(sha)}^`
+    );
+  }
+
+  return sha;
+}
+
+// Fold the fixup!/amend! commits on the current branch into their targets
+// with a non-interactive autosquash rebase that starts at `oldest`. If the
+// rebase stops on a conflict it is left in progress for the user to finish.
+export async function autosquash(
+  git: Git,
+  oldest: string,
+  safetyTag: string
+): Promise<void> {
+  const base = await git.resolveRef(`${oldest}^`);
+
+  try {
+    await git.exec(
+      [
+        "rebase",
+        "--interactive",
+        "--autosquash",
+        ...(base ? [base] : ["--root"]),
+      ],
+      { env: { GIT_SEQUENCE_EDITOR: "true" } }
+    );
+  } catch (error: any) {
+    if (!(await git.rebaseInProgress())) {
+      throw error;
+    }
+
+    throw new ConflictError(
+      [
+        `The rebase stopped on a conflict while folding the fixup into ${shortSha(oldest)}.`,
+        "  • Resolve the conflicts, then: git add <files> && git rebase --continue",
+        "  • Or stop: git rebase --abort, then git reset --soft HEAD^ to get the changes back as staged",
+        `  • The branch as it was before: ${safetyTag}`,
+      ].join("\n"),
+      error
+    );
+  }
+}
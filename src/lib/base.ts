@@ -0,0 +1,259 @@
+import { Git } from "./git.js";
+import { OopsConfig, loadConfig } from "./config.js";
+import { Logger, matchesBranchPattern, pluralize } from "../utils.js";
+import { ValidationError } from "../types.js";
+
+// How a base was found, in the order they are tried
+export type BaseSource =
+  "upstream" | "remote-branch" | "config" | "remote-head" | "default-branch";
+
+// The ref a branch is compared against to tell its own commits from
+// published ones
+export interface Base {
+  // Short ref name, e.g. origin/main or develop
+  ref: string;
+  sha: string;
+  source: BaseSource;
+  // Why this base was picked, for --verbose and messages
+  reason: string;
+  // Set for remote-tracking refs: the remote and the branch name on it
+  remote: string | null;
+  remoteBranch: string | null;
+}
+
+interface Candidate {
+  ref: string;
+  source: "remote-head" | "default-branch";
+  reason: string;
+}
+
+// Work out the base of `branch` (default: the current branch):
+// 1. its configured upstream (branch.<name>.merge)
+// 2. a branch of the same name on a remote, oops.remote first
+// 3. oops.baseBranch
+// 4. the closest by merge-base of each remote's HEAD and the branches
+//    matching oops.defaultBranches, locally or on a remote
+// Returns null if nothing fits; --verbose explains each step.
+export async function resolveBase(
+  git: Git,
+  logger: Logger,
+  options: { branch?: string | null; config?: OopsConfig } = {}
+): Promise<Base | null> {
+  const config = options.config ?? (await loadConfig(git)).values;
+  const branch =
+    options.branch === undefined ? await git.getSymbolicHead() : options.branch;
+  const remotes = orderRemotes(await git.getRemotes(), config.remote);
+  const explain = (message: string) => logger.verbose(`🧭 ${message}`);
+
+  if (branch) {
+    const upstream = await git.getUpstream(branch);
+    if (upstream) {
+      explain(`'${branch}' tracks ${upstream}`);
+      return makeBase(
+        git,
+        remotes,
+        upstream,
+        "upstream",
+        `upstream of '${branch}'`
+      );
+    }
+    explain(`'${branch}' has no upstream configured`);
+
+    for (const remote of remotes) {
+      const ref = `${remote}/${branch}`;
+      if (await git.resolveRef(`refs/remotes/${ref}`)) {
+        explain(`Found ${ref}, the same branch on ${remote}`);
+        return makeBase(
+          git,
+          remotes,
+          ref,
+          "remote-branch",
+          `'${branch}' on ${remote}`
+        );
+      }
+    }
+    if (remotes.length > 0) {
+      explain(`No branch named '${branch}' on ${remotes.join(", ")}`);
+    }
+  }
+
+  if (config.baseBranch) {
+    if (!(await git.resolveRef(config.baseBranch))) {
+      throw new ValidationError(
+        `oops.baseBranch is set to '${config.baseBranch}', which does not exist`
+      );
+    }
+    explain(`Using oops.baseBranch: ${config.baseBranch}`);
+    return makeBase(
+      git,
+      remotes,
+      config.baseBranch,
+      "config",
+      "set in oops.baseBranch"
+    );
+  }
+
+  const candidates = await listCandidates(git, remotes, config, branch);
+  if (candidates.length === 0) {
+    explain(
+      `No remote HEAD and no branch matching ${config.defaultBranches.join(", ")}`
+    );
+    return null;
+  }
+
+  // The closest candidate has the fewest commits between the merge-base and
+  // HEAD; on a tie the earlier one wins (remote HEADs, then remote-tracking
+  // branches, then local ones, each in oops.defaultBranches order)
+  let best: { candidate: Candidate; distance: number } | null = null;
+  for (const candidate of candidates) {
+    try {
+      await git.exec(["merge-base", "HEAD", candidate.ref]);
+    } catch {
+      explain(`${candidate.ref}: no history in common with HEAD, skipped`);
+      continue;
+    }
+    const distance = await git.countCommits(`${candidate.ref}..HEAD`);
+    explain(
+      `${candidate.ref} (${candidate.reason}): ${pluralize(distance, "commit")} since the merge-base`
+    );
+    if (!best || distance < best.distance) {
+      best = { candidate, distance };
+    }
+  }
+  if (!best) return null;
+
+  explain(
+    `Picked ${best.candidate.ref}: closest of ${pluralize(candidates.length, "candidate")}`
+  );
+  return makeBase(
+    git,
+    remotes,
+    best.candidate.ref,
+    best.candidate.source,
+    `${best.candidate.reason}, closest by merge-base`
+  );
+}
+
+async function listCandidates(
+  git: Git,
+  remotes: string[],
+  config: OopsConfig,
+  branch: string | null
+): Promise<Candidate[]> {
+  const candidates: Candidate[] = [];
+  const add = (candidate: Candidate) => {
+    if (!candidates.some((existing) => existing.ref === candidate.ref)) {
+      candidates.push(candidate);
+    }
+  };
+
+  for (const remote of remotes) {
+    try {
+      const target = await git.exec([
+        "symbolic-ref",
+        "--quiet",
+        "--short",
+        `refs/remotes/${remote}/HEAD`,
+      ]);
+      add({
+        ref: target.trim(),
+        source: "remote-head",
+        reason: `default branch of ${remote}`,
+      });
+    } catch {
+      // No refs/remotes/<remote>/HEAD; git remote set-head creates it
+    }
+  }
+
+  const refs = (
+    await git.exec([
+      "for-each-ref",
+      "--format=%(refname)",
+      "refs/remotes",
+      "refs/heads",
+    ])
+  )
+    .split("\n")
+    .filter(Boolean);
+
+  const named = (name: string) =>
+    config.defaultBranches.findIndex((pattern) =>
+      matchesBranchPattern(name, [pattern])
+    );
+
+  const remoteRefs: Array<{ ref: string; rank: number; remote: string }> = [];
+  const localRefs: Array<{ ref: string; rank: number }> = [];
+  for (const ref of refs) {
+    if (ref.startsWith("refs/heads/")) {
+      const name = ref.slice("refs/heads/".length);
+      const rank = named(name);
+      if (name !== branch && rank >= 0) {
+        localRefs.push({ ref: name, rank });
+      }
+      continue;
+    }
+    const remote = remoteOf(remotes, ref);
+    if (!remote) continue;
+    const name = ref.slice(`refs/remotes/${remote}/`.length);
+    const rank = named(name);
+    if (name !== "HEAD" && rank >= 0) {
+      remoteRefs.push({ ref: `${remote}/${name}`, rank, remote });
+    }
+  }
+
+  const byRank = (a: { rank: number }, b: { rank: number }) => a.rank - b.rank;
+  for (const { ref, remote } of remoteRefs.sort(byRank)) {
+    add({
+      ref,
+      source: "default-branch",
+      reason: `oops.defaultBranches on ${remote}`,
+    });
+  }
+  for (const { ref } of localRefs.sort(byRank)) {
+    add({
+      ref,
+      source: "default-branch",
+      reason: "oops.defaultBranches, local",
+    });
+  }
+
+  return candidates;
+}
+
+async function makeBase(
+  git: Git,
+  remotes: string[],
+  ref: string,
+  source: BaseSource,
+  reason: string
+): Promise<Base> {
+  const sha = (await git.resolveRef(ref))!;
+  const full = await git
+    .exec(["rev-parse", "--symbolic-full-name", ref])
+    .then((output) => output.trim())
+    .catch(() => "");
+  const remote = remoteOf(remotes, full);
+
+  return {
+    ref,
+    sha,
+    source,
+    reason,
+    remote,
+    remoteBranch: remote ? full.slice(`refs/remotes/${remote}/`.length) : null,
+  };
+}
+
+// Remote names may contain slashes, so match the longest one
+function remoteOf(remotes: string[], ref: string): string | null {
+  const matches = remotes.filter((remote) =>
+    ref.startsWith(`refs/remotes/${remote}/`)
+  );
+  return matches.sort((a, b) => b.length - a.length)[0] ?? null;
+}
+
+// oops.remote comes first, and counts even if it is not configured as a
+// remote: its remote-tracking refs may still be there
+function orderRemotes(remotes: string[], preferred: string): string[] {
+  return [preferred, ...remotes.filter((remote) => remote !== preferred)];
+}
@@ -0,0 +1,300 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Git } from "./git.js";
+import { ValidationError } from "../types.js";
+
+export interface OopsConfig {
+  protectedBranches: string[];
+  defaultBranches: string[];
+  baseBranch: string;
+  branchPrefix: string;
+  branchMaxLength: number;
+  splitMessage: string;
+  splitStrategy: string;
+  splitDepth: number;
+  splitGroups: string[];
+  saveMessage: string;
+  pullStrategy: string;
+  messageProvider: string;
+  remote: string;
+  pocketUser: string;
+}
+
+export type ConfigKey = keyof OopsConfig;
+
+// Later layers win: defaults < git config < .gitoopsrc < environment < flags
+export type ConfigSource =
+  "default" | "git config" | ".gitoopsrc" | "environment" | "flag";
+
+export interface ResolvedConfig {
+  values: OopsConfig;
+  sources: Record<ConfigKey, ConfigSource>;
+  // Where each non-default value came from, e.g. the env variable name
+  origins: Partial<Record<ConfigKey, string>>;
+  warnings: string[];
+}
+
+type ConfigType = "string" | "number" | "list";
+
+interface ConfigSetting {
+  type: ConfigType;
+  description: string;
+}
+
+export const CONFIG_RC_FILE = ".gitoopsrc";
+export const CONFIG_GIT_SECTION = "oops";
+export const CONFIG_ENV_PREFIX = "GIT_OOPS_";
+
+export const CONFIG_DEFAULTS: OopsConfig = {
+  protectedBranches: [
+    "main",
+    "master",
+    "production",
+    "prod",
+    "release/*",
+    "hotfix/*",
+  ],
+  defaultBranches: ["main", "master", "develop", "trunk"],
+  baseBranch: "",
+  branchPrefix: "fix/",
+  branchMaxLength: 50,
+  splitMessage: "{type}({scope}): {summary}",
+  splitStrategy: "directory",
+  splitDepth: 1,
+  splitGroups: [],
+  saveMessage: "WIP: quick save",
+  pullStrategy: "rebase",
+  messageProvider: "",
+  remote: "origin",
+  pocketUser: "",
+};
+
+export const CONFIG_SETTINGS: Record<ConfigKey, ConfigSetting> = {
+  protectedBranches: {
+    type: "list",
+    description: "Branch patterns (* wildcards) that need extra confirmation",
+  },
+  defaultBranches: {
+    type: "list",
+    description:
+      "Branch patterns (* wildcards) that may be the base when there is no upstream",
+  },
+  baseBranch: {
+    type: "string",
+    description:
+      "Base to compare against when there is no upstream (default: detected)",
+  },
+  branchPrefix: {
+    type: "string",
+    description: "Prefix for branches named by wrong-branch",
+  },
+  branchMaxLength: {
+    type: "number",
+    description: "Maximum length of generated branch names (after the prefix)",
+  },
+  splitMessage: {
+    type: "string",
+    description:
+      "Commit message template for split groups: {type}, {scope}, {summary}, {files}",
+  },
+  splitStrategy: {
+    type: "string",
+    description:
+      "How split groups files: directory, workspace, codeowners, type or glob",
+  },
+  splitDepth: {
+    type: "number",
+    description: "Path segments per group for the directory split strategy",
+  },
+  splitGroups: {
+    type: "list",
+    description: "glob=group rules for the glob split strategy",
+  },
+  saveMessage: {
+    type: "string",
+    description: "Default commit message for save",
+  },
+  pullStrategy: {
+    type: "string",
+    description:
+      "How yank brings in upstream: rebase, merge, ff-only or rebase-merges",
+  },
+  messageProvider: {
+    type: "string",
+    description:
+      "Command that suggests commit messages (default: built-in heuristic)",
+  },
+  remote: {
+    type: "string",
+    description: "Remote used by pocket --push, ls-remote and fetch",
+  },
+  pocketUser: {
+    type: "string",
+    description: "Namespace for pushed pockets (default: from user.email)",
+  },
+};
+
+export const CONFIG_KEYS = Object.keys(CONFIG_SETTINGS) as ConfigKey[];
+
+// Resolve every setting through all layers. Flags are the options a command
+// received; undefined means the flag was not given.
+export async function loadConfig(
+  git: Git,
+  flags: Partial<OopsConfig> = {}
+): Promise<ResolvedConfig> {
+  const config: ResolvedConfig = {
+    values: { ...CONFIG_DEFAULTS },
+    sources: Object.fromEntries(
+      CONFIG_KEYS.map((key) => [key, "default"])
+    ) as Record<ConfigKey, ConfigSource>,
+    origins: {},
+    warnings: [],
+  };
+
+  const apply = (
+    key: string,
+    raw: unknown,
+    source: ConfigSource,
+    origin: string
+  ) => {
+    const settingKey = findKey(key);
+    if (!settingKey) {
+      config.warnings.push(`Unknown setting '${key}' in ${origin}`);
+      return;
+    }
+
+    const value = coerce(settingKey, raw, origin);
+    (config.values as unknown as Record<string, unknown>)[settingKey] = value;
+    config.sources[settingKey] = source;
+    config.origins[settingKey] = origin;
+  };
+
+  for (const [key, value, scope] of await readGitConfig(git)) {
+    apply(key, value, "git config", `${CONFIG_GIT_SECTION}.${key} (${scope})`);
+  }
+
+  const rcFile = await findRcFile(git);
+  if (rcFile) {
+    for (const [key, value] of Object.entries(await readRcFile(rcFile))) {
+      apply(key, value, ".gitoopsrc", rcFile);
+    }
+  }
+
+  for (const key of CONFIG_KEYS) {
+    const variable = envVariable(key);
+    const value = process.env[variable];
+    if (value !== undefined && value !== "") {
+      apply(key, value, "environment", variable);
+    }
+  }
+
+  for (const key of CONFIG_KEYS) {
+    if (flags[key] !== undefined) {
+      apply(key, flags[key], "flag", "command line");
+    }
+  }
+
+  return config;
+}
+
+// protectedBranches -> GIT_OOPS_PROTECTED_BRANCHES
+export function envVariable(key: ConfigKey): string {
+  return `${CONFIG_ENV_PREFIX}${key.replace(/([A-Z])/g, "_$1").toUpperCase()}`;
+}
+
+export function formatConfigValue(value: OopsConfig[ConfigKey]): string {
+  if (Array.isArray(value)) {
+    return value.join(", ");
+  }
+  return value === "" ? "(unset)" : String(value);
+}
+
+// git lowercases variable names, and env/rc keys should forgive case too
+function findKey(key: string): ConfigKey | undefined {
+  return CONFIG_KEYS.find(
+    (candidate) => candidate.toLowerCase() === key.toLowerCase()
+  );
+}
+
+function coerce(
+  key: ConfigKey,
+  raw: unknown,
+  origin: string
+): OopsConfig[ConfigKey] {
+  const { type } = CONFIG_SETTINGS[key];
+
+  if (type === "list") {
+    const items = Array.isArray(raw) ? raw.map(String) : String(raw).split(",");
+    return items.map((item) => item.trim()).filter((item) => item !== "");
+  }
+
+  if (type === "number") {
+    const value = typeof raw === "number" ? raw : parseInt(String(raw), 10);
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new ValidationError(
+        `Invalid value for ${key} in ${origin}: expected a positive integer`
+      );
+    }
+    return value;
+  }
+
+  if (typeof raw === "object" && raw !== null) {
+    throw new ValidationError(
+      `Invalid value for ${key} in ${origin}: expected a string`
+    );
+  }
+  return String(raw);
+}
+
+async function readGitConfig(
+  git: Git
+): Promise<Array<[string, string, string]>> {
+  let output: string;
+  try {
+    output = await git.exec([
+      "config",
+      "--show-scope",
+      "--get-regexp",
+      `^${CONFIG_GIT_SECTION}\\.`,
+    ]);
+  } catch {
+    // Exit code 1: no oops.* keys anywhere
+    return [];
+  }
+
+  const entries: Array<[string, string, string]> = [];
+  for (const line of output.split("\n")) {
+    const match = line.match(/^(\w+)\t[^.]+\.(\S+)(?: (.*))?$/);
+    if (match) {
+      entries.push([match[2], match[3] ?? "", match[1]]);
+    }
+  }
+  return entries;
+}
+
+async function findRcFile(git: Git): Promise<string | null> {
+  try {
+    const top = (await git.exec(["rev-parse", "--show-toplevel"])).trim();
+    const file = path.join(top, CONFIG_RC_FILE);
+    await fs.access(file);
+    return file;
+  } catch {
+    return null;
+  }
+}
+
+async function readRcFile(file: string): Promise<Record<string, unknown>> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(file, "utf8"));
+    if (
+      typeof parsed !== "object" ||
+      parsed === null ||
+      Array.isArray(parsed)
+    ) {
+      throw new Error("expected a JSON object");
+    }
+    return parsed;
+  } catch (error: any) {
+    throw new ValidationError(`Invalid ${file}: ${error.message}`);
+  }
+}
@@ -1,7 +1,22 @@
 import { execa } from "execa";
+import { constants, promises as fs } from "fs";
+import path from "path";
 import { ExternalToolError, GitCommit, GitStatus } from "../types.js";
 import { Logger } from "../utils.js";
 
+export interface ExecOptions {
+  // Extra environment, e.g. GIT_INDEX_FILE to work on a scratch index
+  env?: Record<string, string>;
+  input?: string;
+  // Keep stdout byte-for-byte, e.g. file contents that end in a newline
+  raw?: boolean;
+  // Hand the terminal over, e.g. to git mergetool; nothing is captured
+  interactive?: boolean;
+}
+
+// The tree of a repository with no files, used as the parent of root commits
+export const EMPTY_TREE = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+
 export class Git {
   constructor(
     private logger: Logger,
@@ -9,11 +24,17 @@ export class Git {
   ) {}
 
   // Basic git execution
-  async exec(args: string[]): Promise<string> {
+  async exec(args: string[], options: ExecOptions = {}): Promise<string> {
     try {
       this.logger.verbose(`git ${args.join(" ")}`);
-      const result = await execa("git", args, { cwd: this.cwd });
-      return result.stdout;
+      const result = await execa("git", args, {
+        cwd: this.cwd,
+        env: options.env,
+        input: options.input,
+        stripFinalNewline: !options.raw,
+        stdio: options.interactive ? "inherit" : undefined,
+      });
+      return result.stdout ?? "";
     } catch (error: any) {
       throw new ExternalToolError(
         `Git command failed: git ${args.join(" ")}\n${error.message}`,
@@ -27,6 +48,109 @@ export class Git {
     return (await this.exec(["rev-parse", "--abbrev-ref", "HEAD"])).trim();
   }
 
+  // Same repository, but running from the top of the working tree so that
+  // paths are never relative to a subdirectory
+  async atTopLevel(): Promise<Git> {
+    const top = (await this.exec(["rev-parse", "--show-toplevel"])).trim();
+    return new Git(this.logger, top);
+  }
+
+  async getGitDir(): Promise<string> {
+    return (await this.exec(["rev-parse", "--absolute-git-dir"])).trim();
+  }
+
+  // Run a hook as 'git commit' would: the one in core.hooksPath or the hooks
+  // directory, skipped when it is missing or not executable. Its output goes
+  // to stderr, as with git, so --json stays parseable. Resolves to the
+  // hook's exit code, or null when there was no hook to run.
+  async runHook(
+    name: string,
+    args: string[],
+    options: ExecOptions = {}
+  ): Promise<number | null> {
+    const hook = path.resolve(
+      this.cwd,
+      (await this.exec(["rev-parse", "--git-path", `hooks/${name}`])).trim()
+    );
+    const executable = await fs
+      .access(hook, constants.X_OK)
+      .then(() => true)
+      .catch(() => false);
+    if (!executable) return null;
+
+    this.logger.verbose(`${hook} ${args.join(" ")}`);
+    try {
+      await execa(hook, args, {
+        cwd: this.cwd,
+        env: options.env,
+        stdio: ["ignore", process.stderr, "inherit"],
+      });
+      return 0;
+    } catch (error: any) {
+      if (typeof error.exitCode === "number") return error.exitCode;
+      throw new ExternalToolError(
+        `Could not run the ${name} hook: ${error.shortMessage || error.message}`,
+        error
+      );
+    }
+  }
+
+  // Run fn against a throwaway index file so the real index is never touched.
+  // The scratch index starts empty unless seeded with a copy of the real one.
+  async withTempIndex<T>(
+    fn: (env: Record<string, string>) => Promise<T>,
+    options: { seedFromIndex?: boolean } = {}
+  ): Promise<T> {
+    const gitDir = await this.getGitDir();
+    const file = path.join(
+      gitDir,
+      `oops-index-${process.pid}-${Math.random().toString(36).substring(2, 8)}`
+    );
+
+    try {
+      if (options.seedFromIndex) {
+        await fs.copyFile(path.join(gitDir, "index"), file).catch(() => {});
+      }
+      return await fn({ GIT_INDEX_FILE: file });
+    } finally {
+      await fs.rm(file, { force: true });
+    }
+  }
+
+  // Symbolic branch name of HEAD, or null when detached
+  async getSymbolicHead(): Promise<string | null> {
+    try {
+      const ref = await this.exec([
+        "symbolic-ref",
+        "--quiet",
+        "--short",
+        "HEAD",
+      ]);
+      return ref.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Resolve a revision to a full SHA, or null if it does not exist
+  async resolveRef(ref: string): Promise<string | null> {
+    try {
+      const sha = await this.exec(["rev-parse", "--verify", "--quiet", ref]);
+      return sha.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Write the current index to a tree object, or null if it has conflicts
+  async writeTree(): Promise<string | null> {
+    try {
+      return (await this.exec(["write-tree"])).trim();
+    } catch {
+      return null;
+    }
+  }
+
   async getStatus(): Promise<GitStatus> {
     const [statusOutput, branchOutput] = await Promise.all([
       this.exec(["status", "--porcelain"]),
@@ -67,9 +191,15 @@ export class Git {
     return { staged, unstaged, untracked, branch, ahead, behind };
   }
 
-  // Get staged files list
+  // Get staged files list. Renames are listed as both paths, so the old
+  // path's deletion is not lost.
   async getStagedFiles(): Promise<string[]> {
-    const diff = await this.exec(["diff", "--cached", "--name-only"]);
+    const diff = await this.exec([
+      "diff",
+      "--cached",
+      "--name-only",
+      "--no-renames",
+    ]);
     return diff
       .split("\n")
       .filter((line) => line.trim() !== "")
@@ -106,6 +236,48 @@ export class Git {
     }
   }
 
+  async isAncestor(ancestor: string, descendant: string): Promise<boolean> {
+    try {
+      await this.exec(["merge-base", "--is-ancestor", ancestor, descendant]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // True while a rebase has stopped, e.g. on a conflict
+  async rebaseInProgress(): Promise<boolean> {
+    const gitDir = await this.getGitDir();
+    for (const directory of ["rebase-merge", "rebase-apply"]) {
+      const exists = await fs
+        .access(path.join(gitDir, directory))
+        .then(() => true)
+        .catch(() => false);
+      if (exists) return true;
+    }
+    return false;
+  }
+
+  // True while a cherry-pick has stopped, e.g. on a conflict
+  async cherryPickInProgress(): Promise<boolean> {
+    if (await this.resolveRef("CHERRY_PICK_HEAD")) return true;
+    return fs
+      .access(path.join(await this.getGitDir(), "sequencer"))
+      .then(() => true)
+      .catch(() => false);
+  }
+
+  // True while a merge has stopped, e.g. on a conflict
+  async mergeInProgress(): Promise<boolean> {
+    return (await this.resolveRef("MERGE_HEAD")) !== null;
+  }
+
+  // Paths with unresolved conflicts in the index
+  async getConflictedFiles(): Promise<string[]> {
+    const output = await this.exec(["diff", "--name-only", "--diff-filter=U"]);
+    return output.split("\n").filter(Boolean);
+  }
+
   async commit(message: string): Promise<void> {
     await this.exec(["commit", "-m", message]);
   }
@@ -128,6 +300,8 @@ export class Git {
   }
 
   // Upstream operations
+  // Only the configured upstream (branch.<name>.merge); commands that need
+  // something to compare against use resolveBase from lib/base.ts
   async getUpstream(branch?: string): Promise<string | null> {
     const targetBranch = branch || (await this.getCurrentBranch());
 
@@ -138,15 +312,9 @@ export class Git {
         "--symbolic-full-name",
         `${targetBranch}@{u}`,
       ]);
-      return upstream.trim();
+      return upstream.trim() || null;
     } catch {
-      // Fallback: check if origin/<branch> exists
-      try {
-        await this.exec(["rev-parse", "--verify", `origin/${targetBranch}`]);
-        return `origin/${targetBranch}`;
-      } catch {
-        return null;
-      }
+      return null;
     }
   }
 
@@ -161,23 +329,68 @@ export class Git {
   }
 
   // Stash operations
+  // Returns the SHA of the new stash commit, or null if there was nothing to
+  // stash. With a message, the entry is found by it rather than assumed to
+  // be on top, in case a hook stashed something too.
   async stash(message?: string): Promise<string | null> {
     const args = ["stash", "push", "-u"];
     if (message) {
       args.push("-m", message);
     }
 
+    const before = await this.resolveRef("refs/stash");
     const output = await this.exec(args);
+    const after = await this.resolveRef("refs/stash");
 
-    if (output.includes("No local changes to save")) {
+    if (output.includes("No local changes to save") || after === before) {
       return null;
     }
+    if (!message) {
+      return after;
+    }
+
+    const entries = await this.exec(["stash", "list", "--format=%H%x09%gs"]);
+    for (const line of entries.split("\n")) {
+      const [sha, subject] = line.split("\t");
+      if (subject?.endsWith(`: ${message}`)) {
+        return sha;
+      }
+    }
+    throw new Error(`Could not find the stash entry '${message}'`);
+  }
 
-    return "stash@{0}";
+  // Stash commit SHAs, newest first (stash@{0} first)
+  async listStashes(): Promise<string[]> {
+    const output = await this.exec(["stash", "list", "--format=%H"]);
+    return output.split("\n").filter(Boolean);
+  }
+
+  // Pop exactly the entry holding this stash commit, wherever it is on the
+  // list. With index, staged changes come back staged.
+  async stashPop(
+    sha: string,
+    options: { index?: boolean } = {}
+  ): Promise<void> {
+    await this.exec([
+      "stash",
+      "pop",
+      ...(options.index ? ["--index"] : []),
+      await this.stashEntry(sha),
+    ]);
   }
 
-  async stashPop(): Promise<void> {
-    await this.exec(["stash", "pop"]);
+  async stashDrop(sha: string): Promise<void> {
+    await this.exec(["stash", "drop", await this.stashEntry(sha)]);
+  }
+
+  private async stashEntry(sha: string): Promise<string> {
+    const position = (await this.listStashes()).indexOf(sha);
+    if (position < 0) {
+      throw new Error(
+        `Stash ${sha.substring(0, 8)} is no longer on the stash list`
+      );
+    }
+    return `stash@{${position}}`;
   }
 
   async stashCreate(message?: string): Promise<string | null> {
@@ -191,27 +404,39 @@ export class Git {
   }
 
   // Pull operations
-  async pull(options: { rebase?: boolean } = {}): Promise<void> {
-    const args = ["pull"];
-    if (options.rebase) {
-      args.push("--rebase");
+  // Without a remote, pulls from the configured upstream. Flags pick how the
+  // branch is integrated, e.g. --rebase or --ff-only.
+  async pull(
+    options: { flags?: string[]; remote?: string; branch?: string } = {}
+  ): Promise<void> {
+    const args = ["pull", ...(options.flags ?? [])];
+    if (options.remote) {
+      args.push(options.remote, ...(options.branch ? [options.branch] : []));
     }
     await this.exec(args);
   }
 
   // Ref operations
-  async updateRef(ref: string, sha: string): Promise<void> {
-    await this.exec(["update-ref", ref, sha]);
+  // With expected, the update only happens if the ref still has that value
+  async updateRef(ref: string, sha: string, expected?: string): Promise<void> {
+    await this.exec(["update-ref", ref, sha, ...(expected ? [expected] : [])]);
+  }
+
+  async deleteRef(ref: string): Promise<void> {
+    await this.exec(["update-ref", "-d", ref]);
   }
 
   // Remote operations
   async hasRemote(name: string): Promise<boolean> {
+    return (await this.getRemotes()).includes(name);
+  }
+
+  async getRemotes(): Promise<string[]> {
     try {
       const output = await this.exec(["remote"]);
-      const remotes = output.split("\n").filter((line) => line.trim() !== "");
-      return remotes.includes(name);
+      return output.split("\n").filter((line) => line.trim() !== "");
     } catch {
-      return false;
+      return [];
     }
   }
 }
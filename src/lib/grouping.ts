@@ -0,0 +1,343 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Git } from "./git.js";
+import { FileGroup, ValidationError } from "../types.js";
+
+export type GroupingStrategy =
+  "directory" | "workspace" | "codeowners" | "type" | "glob";
+
+export const GROUPING_STRATEGIES: Record<GroupingStrategy, string> = {
+  directory: "leading path segments (see --depth)",
+  workspace: "npm/yarn/pnpm workspace packages",
+  codeowners: "sets of CODEOWNERS owners",
+  type: "tests, docs, config and source",
+  glob: "the splitGroups glob=group map",
+};
+
+export interface GroupingOptions {
+  // Path segments that make up a directory group
+  depth: number;
+  // "glob=group" rules for the glob strategy; the first match wins
+  globs: string[];
+}
+
+interface Assignment {
+  name: string;
+  // Why the file is in this group, shown in the split preview
+  reason: string;
+}
+
+type Assigner = (file: string) => Assignment | Promise<Assignment>;
+
+// Files that fit no group of the chosen strategy end up here
+export const ROOT_GROUP = "root";
+
+const CODEOWNERS_LOCATIONS = [
+  ".github/CODEOWNERS",
+  "CODEOWNERS",
+  "docs/CODEOWNERS",
+];
+
+const TYPE_RULES: Array<[string, string, RegExp]> = [
+  [
+    "tests",
+    "test files",
+    /(^|\/)(tests?|__tests__|specs?|e2e)\/|\.(test|spec)\.[^/]+$|_test\.[^/]+$/,
+  ],
+  [
+    "docs",
+    "documentation",
+    /(^|\/)docs?\/|\.(md|mdx|rst|adoc|txt)$|(^|\/)(LICENSE|CHANGELOG)/,
+  ],
+  [
+    "config",
+    "configuration and tooling",
+    /(^|\/)(package(-lock)?\.json|pnpm-lock\.yaml|yarn\.lock|tsconfig[^/]*\.json|Dockerfile|Makefile)$|(^|\/)\.[^/]+$|\.(ya?ml|toml|ini|cfg)$/,
+  ],
+];
+
+export function parseGroupingStrategy(value: string): GroupingStrategy {
+  if (!Object.keys(GROUPING_STRATEGIES).includes(value)) {
+    throw new ValidationError(
+      `Unknown split strategy '${value}'. Use one of: ${Object.keys(
+        GROUPING_STRATEGIES
+      ).join(", ")}`
+    );
+  }
+  return value as GroupingStrategy;
+}
+
+// Group repository-relative paths. Groups are sorted by name, with the
+// catch-all group last.
+export async function groupFiles(
+  git: Git,
+  files: string[],
+  strategy: GroupingStrategy,
+  options: GroupingOptions
+): Promise<FileGroup[]> {
+  const top = (await git.exec(["rev-parse", "--show-toplevel"])).trim();
+  const assign = await createAssigner(top, strategy, options);
+
+  const groups = new Map<string, FileGroup>();
+  for (const file of files) {
+    const { name, reason } = await assign(file.replace(/\\/g, "/"));
+    if (!groups.has(name)) {
+      groups.set(name, { name, reason, files: [] });
+    }
+    groups.get(name)!.files.push(file);
+  }
+
+  return [...groups.values()]
+    .map((group) => ({ ...group, files: group.files.sort() }))
+    .sort((a, b) => {
+      if (a.name === ROOT_GROUP && b.name !== ROOT_GROUP) return 1;
+      if (b.name === ROOT_GROUP && a.name !== ROOT_GROUP) return -1;
+      return a.name.localeCompare(b.name);
+    });
+}
+
+async function createAssigner(
+  top: string,
+  strategy: GroupingStrategy,
+  options: GroupingOptions
+): Promise<Assigner> {
+  switch (strategy) {
+    case "directory":
+      return (file) => byDirectory(file, options.depth);
+    case "workspace":
+      return byWorkspace(top);
+    case "codeowners":
+      return byCodeowners(top);
+    case "type":
+      return byType;
+    case "glob":
+      return byGlob(options.globs);
+  }
+}
+
+function byDirectory(file: string, depth: number): Assignment {
+  const directories = file.split("/").slice(0, -1);
+  if (directories.length === 0) {
+    return { name: ROOT_GROUP, reason: "files at the repository root" };
+  }
+
+  const name = directories.slice(0, depth).join("/");
+  return { name, reason: `under ${name}/` };
+}
+
+// Each file goes to the deepest workspace package containing it, named after
+// the package's "name" field
+async function byWorkspace(top: string): Promise<Assigner> {
+  const patterns = await readWorkspacePatterns(top);
+  if (patterns.length === 0) {
+    throw new ValidationError(
+      "No workspaces found in package.json or pnpm-workspace.yaml"
+    );
+  }
+
+  const toRegExp = (pattern: string) =>
+    globToRegExp(pattern.replace(/^\.\//, "").replace(/\/+$/, ""));
+  const included = patterns
+    .filter((pattern) => !pattern.startsWith("!"))
+    .map(toRegExp);
+  const excluded = patterns
+    .filter((pattern) => pattern.startsWith("!"))
+    .map((pattern) => toRegExp(pattern.slice(1)));
+  const names = new Map<string, string>();
+
+  return async (file) => {
+    const parts = file.split("/");
+    for (let length = parts.length - 1; length > 0; length--) {
+      const directory = parts.slice(0, length).join("/");
+      if (
+        !included.some((pattern) => pattern.test(directory)) ||
+        excluded.some((pattern) => pattern.test(directory))
+      ) {
+        continue;
+      }
+
+      if (!names.has(directory)) {
+        const manifest = await readJson(
+          path.join(top, directory, "package.json")
+        );
+        const name = field(manifest, "name");
+        names.set(
+          directory,
+          typeof name === "string" && name !== "" ? name : directory
+        );
+      }
+      return {
+        name: names.get(directory)!,
+        reason: `workspace package ${directory}/`,
+      };
+    }
+
+    return { name: ROOT_GROUP, reason: "outside any workspace package" };
+  };
+}
+
+// Files with the same set of owners go together. As in GitHub, the last
+// matching CODEOWNERS rule wins.
+async function byCodeowners(top: string): Promise<Assigner> {
+  let content: string | null = null;
+  let location = "";
+  for (const candidate of CODEOWNERS_LOCATIONS) {
+    content = await fs
+      .readFile(path.join(top, candidate), "utf8")
+      .catch(() => null);
+    if (content !== null) {
+      location = candidate;
+      break;
+    }
+  }
+  if (content === null) {
+    throw new ValidationError(
+      `No CODEOWNERS file found (looked in ${CODEOWNERS_LOCATIONS.join(", ")})`
+    );
+  }
+
+  const rules = content
+    .split("\n")
+    .map((line) => line.replace(/(^|\s)#.*$/, "").trim())
+    .filter((line) => line !== "")
+    .map((line) => {
+      const [pattern, ...owners] = line.split(/\s+/);
+      return { pattern, matcher: codeownersRegExp(pattern), owners };
+    })
+    .reverse();
+
+  return (file) => {
+    const rule = rules.find((candidate) => candidate.matcher.test(file));
+    if (!rule || rule.owners.length === 0) {
+      return { name: "unowned", reason: `no owner in ${location}` };
+    }
+    return {
+      name: [...rule.owners].sort().join(" "),
+      reason: `${location}: ${rule.pattern}`,
+    };
+  };
+}
+
+function byType(file: string): Assignment {
+  for (const [name, reason, pattern] of TYPE_RULES) {
+    if (pattern.test(file)) {
+      return { name, reason };
+    }
+  }
+  return { name: "source", reason: "everything else" };
+}
+
+// "tests", "docs", "config" or "source"
+export function fileType(file: string): string {
+  return byType(file).name;
+}
+
+function byGlob(globs: string[]): Assigner {
+  if (globs.length === 0) {
+    throw new ValidationError(
+      'No glob groups configured. Set splitGroups, e.g. git config oops.splitGroups "src/api/**=api,src/web/**=web"'
+    );
+  }
+
+  const rules = globs.map((rule) => {
+    const separator = rule.lastIndexOf("=");
+    if (separator <= 0 || separator === rule.length - 1) {
+      throw new ValidationError(
+        `Invalid splitGroups rule '${rule}': expected <glob>=<group>`
+      );
+    }
+    const pattern = rule.slice(0, separator).trim();
+    return {
+      pattern,
+      matcher: globToRegExp(pattern),
+      name: rule.slice(separator + 1).trim(),
+    };
+  });
+
+  return (file) => {
+    const rule = rules.find((candidate) => candidate.matcher.test(file));
+    return rule
+      ? { name: rule.name, reason: `matches ${rule.pattern}` }
+      : { name: ROOT_GROUP, reason: "matches no splitGroups rule" };
+  };
+}
+
+async function readWorkspacePatterns(top: string): Promise<string[]> {
+  const manifest = await readJson(path.join(top, "package.json"));
+  const workspaces = field(manifest, "workspaces");
+  // Either a list of patterns or, as in Yarn, { packages: [...] }
+  const packages = field(workspaces, "packages");
+  const patterns: unknown[] = Array.isArray(workspaces)
+    ? workspaces
+    : Array.isArray(packages)
+      ? packages
+      : [];
+
+  // pnpm-workspace.yaml: only the "packages:" list matters here
+  const yaml = await fs
+    .readFile(path.join(top, "pnpm-workspace.yaml"), "utf8")
+    .catch(() => "");
+  let inPackages = false;
+  for (const line of yaml.split("\n")) {
+    if (/^\S/.test(line)) {
+      inPackages = /^packages\s*:/.test(line);
+      continue;
+    }
+    const item = line.match(/^\s+-\s*(['"]?)(.+?)\1\s*$/);
+    if (inPackages && item) {
+      patterns.push(item[2]);
+    }
+  }
+
+  return patterns.map(String);
+}
+
+async function readJson(file: string): Promise<unknown> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+// A property of parsed JSON, or undefined when it is not an object
+function field(json: unknown, key: string): unknown {
+  return typeof json === "object" && json !== null && !Array.isArray(json)
+    ? (json as Record<string, unknown>)[key]
+    : undefined;
+}
+
+// "**" crosses directories, "*" and "?" do not
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      i++;
+      if (glob[i + 1] === "/") {
+        i++;
+        source += "(?:.*/)?";
+      } else {
+        source += ".*";
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// CODEOWNERS patterns follow gitignore rules: a pattern without a slash
+// (other than a trailing one) matches at any depth, a leading slash anchors
+// it to the root, and a directory pattern covers everything below it
+function codeownersRegExp(pattern: string): RegExp {
+  const anchored = pattern.replace(/\/$/, "").includes("/");
+  const body = globToRegExp(
+    pattern.replace(/^\//, "").replace(/\/$/, "")
+  ).source.slice(1, -1);
+  return new RegExp(`^${anchored ? "" : "(?:.*/)?"}${body}(?:/.*)?$`);
+}
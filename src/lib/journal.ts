@@ -0,0 +1,196 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Git } from "./git.js";
+import { reportEntry } from "./report.js";
+import { JournalEntry, RefChange, RepoState } from "../types.js";
+
+const JOURNAL_FILE = "journal.jsonl";
+
+// Append-only log of git-oops operations, stored under .git/oops/
+export class Journal {
+  constructor(private git: Git) {}
+
+  async getDirectory(): Promise<string> {
+    return path.join(await this.git.getGitDir(), "oops");
+  }
+
+  async list(): Promise<JournalEntry[]> {
+    const file = path.join(await this.getDirectory(), JOURNAL_FILE);
+
+    let content: string;
+    try {
+      content = await fs.readFile(file, "utf8");
+    } catch {
+      return [];
+    }
+
+    const entries: JournalEntry[] = [];
+    for (const line of content.split("\n")) {
+      if (line.trim() === "") continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Skip partially written lines
+      }
+    }
+
+    return entries;
+  }
+
+  async get(id: number): Promise<JournalEntry | undefined> {
+    const entries = await this.list();
+    return entries.find((entry) => entry.id === id);
+  }
+
+  // Capture the "before" state and start recording an operation
+  async begin(
+    command: string,
+    args: string[] = process.argv.slice(2)
+  ): Promise<JournalOperation> {
+    const before = await captureState(this.git);
+    const operation = new JournalOperation(
+      this,
+      this.git,
+      command,
+      args,
+      before
+    );
+
+    if (before.branch) {
+      await operation.track(`refs/heads/${before.branch}`);
+    }
+
+    return operation;
+  }
+
+  async append(entry: Omit<JournalEntry, "id">): Promise<JournalEntry> {
+    const directory = await this.getDirectory();
+    await fs.mkdir(directory, { recursive: true });
+
+    const entries = await this.list();
+    const lastId = entries.length > 0 ? entries[entries.length - 1].id : 0;
+    const saved: JournalEntry = { id: lastId + 1, ...entry };
+
+    await fs.appendFile(
+      path.join(directory, JOURNAL_FILE),
+      JSON.stringify(saved) + "\n"
+    );
+
+    return saved;
+  }
+}
+
+export class JournalOperation {
+  private refs = new Map<string, string | null>();
+  private safetyTags: string[] = [];
+  private stashes: string[] = [];
+  private finished = false;
+
+  constructor(
+    private journal: Journal,
+    private git: Git,
+    private command: string,
+    private args: string[],
+    private before: RepoState
+  ) {}
+
+  // Record the current value of a ref so it can be restored on rollback
+  async track(ref: string): Promise<void> {
+    if (this.refs.has(ref)) return;
+    this.refs.set(ref, await this.git.resolveRef(ref));
+  }
+
+  addSafetyTag(name: string) {
+    this.safetyTags.push(name);
+  }
+
+  addStash(sha: string) {
+    this.stashes.push(sha);
+  }
+
+  async complete(): Promise<JournalEntry | null> {
+    return this.finish("completed");
+  }
+
+  // Failed operations are recorded too, so they can be rolled back
+  async fail(error: unknown): Promise<JournalEntry | null> {
+    return this.finish("failed", error);
+  }
+
+  private async finish(
+    status: JournalEntry["status"],
+    error?: unknown
+  ): Promise<JournalEntry | null> {
+    if (this.finished) return null;
+    this.finished = true;
+
+    try {
+      const after = await captureState(this.git);
+
+      const refs: RefChange[] = [];
+      for (const [ref, before] of this.refs) {
+        refs.push({ ref, before, after: await this.git.resolveRef(ref) });
+      }
+
+      const entry = await this.journal.append({
+        command: this.command,
+        args: this.args,
+        timestamp: new Date().toISOString(),
+        status,
+        before: this.before,
+        after,
+        refs,
+        commits: await createdCommits(this.git, this.before, after, refs),
+        safetyTags: this.safetyTags,
+        stashes: this.stashes,
+        ...(error !== undefined && {
+          error: error instanceof Error ? error.message : String(error),
+        }),
+      });
+      reportEntry(entry);
+      return entry;
+    } catch {
+      // The journal must never break the operation it describes
+      return null;
+    }
+  }
+}
+
+// New commits reachable from the refs after the operation but from nothing
+// before it. Remote-tracking refs count as "before" so pulled commits are
+// not reported as created.
+async function createdCommits(
+  git: Git,
+  before: RepoState,
+  after: RepoState,
+  refs: RefChange[]
+): Promise<string[]> {
+  const tips = new Set([after.head, ...refs.map((change) => change.after)]);
+  const bases = new Set([before.head, ...refs.map((change) => change.before)]);
+  tips.delete(null);
+  bases.delete(null);
+  if (tips.size === 0) return [];
+
+  try {
+    const output = await git.exec([
+      "rev-list",
+      ...(tips as Set<string>),
+      "--not",
+      ...(bases as Set<string>),
+      "--remotes",
+    ]);
+    return output.split("\n").filter((sha) => sha.trim() !== "");
+  } catch {
+    return [];
+  }
+}
+
+export async function captureState(git: Git): Promise<RepoState> {
+  const [branch, head, index] = await Promise.all([
+    git.getSymbolicHead(),
+    git.resolveRef("HEAD"),
+    git.writeTree(),
+  ]);
+
+  return { branch, head, index };
+}
@@ -0,0 +1,271 @@
+import { Git } from "./git.js";
+import { fileType } from "./grouping.js";
+import { StagedHunk } from "./split.js";
+
+// What a generated commit message is made of; the template placeholders
+// {type}, {scope}, {summary} and {files} are filled from these
+export interface MessageParts {
+  type: string;
+  scope: string;
+  summary: string;
+  files: string[];
+}
+
+// Which staged changes a message is about
+export interface DiffSource {
+  // Compare the index with this commit instead of HEAD
+  base?: string;
+  // Extra git environment, e.g. a scratch index
+  env?: Record<string, string>;
+  // Whole files to include; everything staged when omitted
+  files?: string[];
+  hunks?: StagedHunk[];
+}
+
+// The conventional format used when nothing else is configured
+export const DEFAULT_MESSAGE_TEMPLATE = "{type}({scope}): {summary}";
+
+interface FileChange {
+  file: string;
+  status: "added" | "deleted" | "modified";
+  added: string[];
+  removed: string[];
+  contexts: string[];
+}
+
+const CI_PATTERN =
+  /^\.github\/workflows\/|^\.gitlab-ci\.yml$|^\.circleci\/|^\.travis\.yml$|^azure-pipelines\.yml$|(^|\/)Jenkinsfile$/;
+const BUILD_PATTERN =
+  /(^|\/)(package(-lock)?\.json|pnpm-lock\.yaml|yarn\.lock|tsconfig[^/]*\.json|Dockerfile|Makefile|(webpack|rollup|vite|esbuild|babel)\.config\.[^/]+|build\.gradle|pom\.xml|Cargo\.(toml|lock)|go\.(mod|sum))$/;
+
+// Declarations worth naming in a summary: functions, classes, types and
+// function-valued constants in the common languages
+const SYMBOL_PATTERNS = [
+  /\b(?:function\*?|class|interface|type|enum|struct|trait|def|func|fn)\s+([A-Za-z_$][\w$]*)/,
+  /\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=\s*(?:async\s*)?(?:\([^)]*\)|[A-Za-z_$][\w$]*)\s*=>/,
+  /\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=\s*(?:async\s+)?function\b/,
+];
+
+// Derive the parts of a conventional commit message from a staged diff. The
+// scope defaults to the top-level directory shared by all changed files.
+export async function describeCommit(
+  git: Git,
+  source: DiffSource,
+  scope?: string
+): Promise<MessageParts> {
+  const changes = [
+    ...parseChanges(await fileDiff(git, source, 0)),
+    ...hunkChanges(source.hunks ?? []),
+  ];
+  const files = changes.map((change) => change.file);
+
+  return {
+    type: commitType(changes),
+    scope: scope ?? commonScope(files),
+    summary: summarize(changes),
+    files,
+  };
+}
+
+// Fill a template such as "{type}({scope}): {summary}". An empty scope drops
+// its parentheses, giving "docs: ..." rather than "docs(): ...".
+export function fillMessageTemplate(
+  template: string,
+  parts: MessageParts
+): string {
+  const filled = parts.scope
+    ? template
+    : template.replace(/\(\{scope\}\)/g, "");
+  return filled
+    .replace(/\{type\}/g, parts.type)
+    .replace(/\{scope\}/g, parts.scope)
+    .replace(/\{summary\}/g, parts.summary)
+    .replace(/\{files\}/g, parts.files.join(", "));
+}
+
+function commitType(changes: FileChange[]): string {
+  const every = (test: (change: FileChange) => boolean) =>
+    changes.length > 0 && changes.every(test);
+
+  if (every((change) => fileType(change.file) === "tests")) return "test";
+  if (every((change) => fileType(change.file) === "docs")) return "docs";
+  if (every((change) => CI_PATTERN.test(change.file))) return "ci";
+  if (every((change) => BUILD_PATTERN.test(change.file))) return "build";
+
+  const code = changes.filter(
+    (change) => !["tests", "docs"].includes(fileType(change.file))
+  );
+  // A mix of tests and docs only
+  if (code.length === 0) return "test";
+  if (code.every((change) => change.status === "deleted")) return "refactor";
+  if (
+    code.some((change) => change.status === "added") ||
+    code.some((change) => newSymbols(change).length > 0)
+  ) {
+    return "feat";
+  }
+  if (every((change) => fileType(change.file) === "config")) return "chore";
+  return "fix";
+}
+
+function summarize(changes: FileChange[]): string {
+  const added = unique(changes.flatMap(newSymbols));
+  if (added.length > 0 && added.length <= 3) {
+    return `add ${listNames(added)}`;
+  }
+
+  const touched = unique(changes.flatMap(touchedSymbols));
+  if (touched.length > 0 && touched.length <= 3) {
+    return `update ${listNames(touched)}`;
+  }
+
+  const verb = changes.every((change) => change.status === "added")
+    ? "add"
+    : changes.every((change) => change.status === "deleted")
+      ? "remove"
+      : "update";
+  const names = unique(changes.map((change) => baseName(change.file)));
+  return names.length <= 3
+    ? `${verb} ${listNames(names)}`
+    : `${verb} ${names.length} files`;
+}
+
+// Symbols declared on added lines that no removed line declared
+function newSymbols(change: FileChange): string[] {
+  const removed = new Set(change.removed.flatMap(symbolsIn));
+  return change.added.flatMap(symbolsIn).filter((name) => !removed.has(name));
+}
+
+// Declarations changed by the diff, or enclosing the changed lines
+function touchedSymbols(change: FileChange): string[] {
+  return [...change.added, ...change.removed, ...change.contexts].flatMap(
+    symbolsIn
+  );
+}
+
+function symbolsIn(line: string): string[] {
+  for (const pattern of SYMBOL_PATTERNS) {
+    const match = line.match(pattern);
+    if (match) return [match[1]];
+  }
+  return [];
+}
+
+// The staged diff as a patch, e.g. for an external message provider
+export async function stagedDiff(
+  git: Git,
+  source: DiffSource
+): Promise<string> {
+  const hunks = (source.hunks ?? []).map((hunk) =>
+    [
+      `--- a/${hunk.file}`,
+      `+++ b/${hunk.file}`,
+      `${hunk.header} ${hunk.context}`.trim(),
+      ...hunk.lines,
+    ].join("\n")
+  );
+  return [await fileDiff(git, source, 3), ...hunks]
+    .filter((part) => part !== "")
+    .join("\n");
+}
+
+function commonScope(files: string[]): string {
+  const directories = new Set(
+    files.map((file) => (file.includes("/") ? file.split("/")[0] : ""))
+  );
+  return directories.size === 1 ? [...directories][0] : "";
+}
+
+async function fileDiff(
+  repo: Git,
+  source: DiffSource,
+  context: number
+): Promise<string> {
+  if (source.files?.length === 0) return "";
+
+  const git = await repo.atTopLevel();
+  return git.exec(
+    [
+      "diff",
+      "--cached",
+      `--unified=${context}`,
+      "--no-renames",
+      "--no-color",
+      "--no-ext-diff",
+      ...(source.base ? [source.base] : []),
+      "--",
+      ...(source.files ?? []),
+    ],
+    { env: source.env }
+  );
+}
+
+function parseChanges(diff: string): FileChange[] {
+  const changes: FileChange[] = [];
+  let current: FileChange | null = null;
+  for (const line of diff.split("\n")) {
+    const start = line.match(/^diff --git a\/.* b\/(.*)$/);
+    if (start) {
+      current = {
+        file: start[1],
+        status: "modified",
+        added: [],
+        removed: [],
+        contexts: [],
+      };
+      changes.push(current);
+    } else if (!current) {
+      continue;
+    } else if (line.startsWith("new file mode")) {
+      current.status = "added";
+    } else if (line.startsWith("deleted file mode")) {
+      current.status = "deleted";
+    } else if (line.startsWith("@@")) {
+      current.contexts.push(line.replace(/^@@[^@]*@@ ?/, ""));
+    } else if (line.startsWith("+") && !line.startsWith("+++")) {
+      current.added.push(line.slice(1));
+    } else if (line.startsWith("-") && !line.startsWith("---")) {
+      current.removed.push(line.slice(1));
+    }
+  }
+
+  return changes;
+}
+
+function hunkChanges(hunks: StagedHunk[]): FileChange[] {
+  const changes = new Map<string, FileChange>();
+
+  for (const hunk of hunks) {
+    if (!changes.has(hunk.file)) {
+      changes.set(hunk.file, {
+        file: hunk.file,
+        status: "modified",
+        added: [],
+        removed: [],
+        contexts: [],
+      });
+    }
+    const change = changes.get(hunk.file)!;
+    change.contexts.push(hunk.context);
+    for (const line of hunk.lines) {
+      if (line.startsWith("+")) change.added.push(line.slice(1));
+      if (line.startsWith("-")) change.removed.push(line.slice(1));
+    }
+  }
+
+  return [...changes.values()];
+}
+
+function listNames(names: string[]): string {
+  return names.length === 1
+    ? names[0]
+    : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
+
+function baseName(file: string): string {
+  return file.split("/").pop() || file;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
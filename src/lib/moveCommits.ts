@@ -0,0 +1,231 @@
+import { Git } from "./git.js";
+import {
+  clearResumeState,
+  loadResumeState,
+  saveResumeState,
+} from "./resume.js";
+import { Logger, pluralize, shortSha } from "../utils.js";
+import { ConflictError, ValidationError } from "../types.js";
+
+const STATE_NAME = "wrong-branch";
+
+// A wrong-branch move done by cherry-picking: the moved commits are copied
+// onto the target branch, then the current branch is rebuilt without them
+export interface MoveState {
+  currentBranch: string;
+  targetBranch: string;
+  // The target's tip before the move; null if the move created it
+  targetBefore: string | null;
+  // The current branch's tip before the move
+  head: string;
+  safetyTag: string;
+  // Commits to copy onto the target, oldest first
+  moved: string[];
+  // The current branch is reset here and the kept commits replayed on top
+  keepBase: string;
+  kept: string[];
+  // Uncommitted changes stashed before the move, reapplied on the target.
+  // The stash is on the stash list until it is reapplied.
+  stash: string | null;
+  phase: "pick-onto-target" | "rebuild-current";
+}
+
+export function describeMove(state: MoveState): string[] {
+  const steps = [
+    `Cherry-pick ${pluralize(state.moved.length, "commit")} onto '${state.targetBranch}': ${state.moved
+      .map(shortSha)
+      .join(", ")}`,
+    `Reset '${state.currentBranch}' to ${shortSha(state.keepBase)}`,
+  ];
+  if (state.kept.length > 0) {
+    steps.push(
+      `Replay the ${pluralize(state.kept.length, "kept commit")} on '${state.currentBranch}'`
+    );
+  }
+  steps.push(`Switch to '${state.targetBranch}'`);
+  return steps;
+}
+
+export async function startMove(
+  git: Git,
+  logger: Logger,
+  state: MoveState
+): Promise<void> {
+  await runMove(git, logger, state, false);
+}
+
+// Finish a move that stopped on a conflict, after the user resolved it
+export async function continueMove(
+  git: Git,
+  logger: Logger
+): Promise<MoveState> {
+  const state = await requireState(git);
+
+  if (await git.cherryPickInProgress()) {
+    logger.info("🍒 Continuing the cherry-pick...");
+    try {
+      await git.exec(["cherry-pick", "--continue"], {
+        env: { GIT_EDITOR: "true" },
+      });
+    } catch (error: any) {
+      throw conflictError(state, error);
+    }
+  }
+
+  await runMove(git, logger, state, true);
+  return state;
+}
+
+// Put both branches back where they were before the move
+export async function abortMove(git: Git, logger: Logger): Promise<MoveState> {
+  const state = await requireState(git);
+
+  if (await git.cherryPickInProgress()) {
+    await git.exec(["cherry-pick", "--abort"]);
+  }
+
+  logger.info(`↩️  Restoring '${state.currentBranch}'...`);
+  await git.switchBranch(state.currentBranch);
+  await git.resetHard(state.head);
+  if (state.stash) {
+    await git.exec(["stash", "apply", "--index", state.stash]);
+    await dropStash(git, state.stash);
+  }
+
+  if (state.targetBefore) {
+    await git.updateRef(`refs/heads/${state.targetBranch}`, state.targetBefore);
+  } else if (await git.resolveRef(`refs/heads/${state.targetBranch}`)) {
+    await git.exec(["branch", "-D", state.targetBranch]);
+  }
+
+  await clearResumeState(git, STATE_NAME);
+  return state;
+}
+
+export async function moveInProgress(git: Git): Promise<boolean> {
+  return (await loadMoveState(git)) !== null;
+}
+
+// The move that stopped on a conflict, if there is one
+export async function loadMoveState(git: Git): Promise<MoveState | null> {
+  return loadResumeState<MoveState>(git, STATE_NAME);
+}
+
+// Each phase saves the state first, so a conflict anywhere can be resumed.
+// `resumed` means the cherry-picks of the saved phase are already done.
+async function runMove(
+  git: Git,
+  logger: Logger,
+  state: MoveState,
+  resumed: boolean
+): Promise<void> {
+  if (state.phase === "pick-onto-target") {
+    if (!resumed) {
+      await saveResumeState(git, STATE_NAME, state);
+      await git.switchBranch(state.targetBranch);
+      logger.info(
+        `🍒 Cherry-picking ${pluralize(state.moved.length, "commit")} onto '${state.targetBranch}'...`
+      );
+      await cherryPick(git, state, state.moved);
+    }
+    state.phase = "rebuild-current";
+    resumed = false;
+  }
+
+  if (!resumed) {
+    await saveResumeState(git, STATE_NAME, state);
+    logger.info(
+      `🔄 Resetting '${state.currentBranch}' to ${shortSha(state.keepBase)}...`
+    );
+    if (state.kept.length === 0) {
+      await git.updateRef(`refs/heads/${state.currentBranch}`, state.keepBase);
+    } else {
+      await git.switchBranch(state.currentBranch);
+      await git.resetHard(state.keepBase);
+      await cherryPick(git, state, state.kept);
+    }
+  }
+
+  await git.switchBranch(state.targetBranch);
+  await clearResumeState(git, STATE_NAME);
+  if (state.stash) {
+    await reapplyChanges(git, logger, state, state.stash);
+  }
+}
+
+// The target may have diverged from where the changes were made, so they do
+// not always apply; in that case keep them in the stash list
+async function reapplyChanges(
+  git: Git,
+  logger: Logger,
+  state: MoveState,
+  stash: string
+): Promise<void> {
+  logger.info(
+    `📦 Reapplying uncommitted changes on '${state.targetBranch}'...`
+  );
+  try {
+    await git.exec(["stash", "apply", "--index", stash]);
+  } catch {
+    await git.resetHard("HEAD");
+    state.stash = null;
+    const position = (await git.listStashes()).indexOf(stash);
+    const restore =
+      position < 0
+        ? `git stash apply --index ${stash}`
+        : `git stash pop --index stash@{${position}}`;
+    logger.warn(
+      `Your uncommitted changes do not apply cleanly on '${state.targetBranch}'; they are kept in the stash. Bring them back with: ${restore}`
+    );
+    return;
+  }
+  await dropStash(git, stash);
+}
+
+// Once its changes are back the stash entry is done with, unless the user
+// already dropped it
+async function dropStash(git: Git, stash: string): Promise<void> {
+  if ((await git.listStashes()).includes(stash)) {
+    await git.stashDrop(stash);
+  }
+}
+
+async function cherryPick(
+  git: Git,
+  state: MoveState,
+  commits: string[]
+): Promise<void> {
+  try {
+    await git.exec(["cherry-pick", ...commits]);
+  } catch (error: any) {
+    if (await git.cherryPickInProgress()) {
+      throw conflictError(state, error);
+    }
+    throw error;
+  }
+}
+
+function conflictError(state: MoveState, cause: Error): ConflictError {
+  const branch =
+    state.phase === "pick-onto-target"
+      ? state.targetBranch
+      : state.currentBranch;
+  return new ConflictError(
+    [
+      `Cherry-picking onto '${branch}' stopped on a conflict.`,
+      "  • Resolve the conflicts and stage them: git add <files>",
+      "  • Then carry on: git oops wrong-branch --continue",
+      "  • Or put both branches back: git oops wrong-branch --abort",
+      `  • '${state.currentBranch}' as it was before: ${state.safetyTag}`,
+    ].join("\n"),
+    cause
+  );
+}
+
+async function requireState(git: Git): Promise<MoveState> {
+  const state = await loadResumeState<MoveState>(git, STATE_NAME);
+  if (!state) {
+    throw new ValidationError("No wrong-branch operation in progress");
+  }
+  return state;
+}
@@ -0,0 +1,198 @@
+import { Git } from "./git.js";
+import { Logger, shortSha } from "../utils.js";
+import { PlanExecutionError } from "../types.js";
+
+// One git-level action of a multi-step command. Steps are plain data so the
+// same plan can be rendered for --dry-run and handed to the executor.
+export type PlanStep =
+  | { kind: "create-branch"; branch: string; at: string }
+  | { kind: "switch"; branch: string }
+  | { kind: "reset-hard"; target: string }
+  | { kind: "update-ref"; ref: string; sha: string; expected?: string };
+
+interface Compensation {
+  description: string;
+  undo: () => Promise<void>;
+}
+
+export class Plan {
+  readonly steps: PlanStep[] = [];
+
+  add(step: PlanStep): this {
+    this.steps.push(step);
+    return this;
+  }
+
+  describe(): string[] {
+    return this.steps.map(describeStep);
+  }
+}
+
+export function describeStep(step: PlanStep): string {
+  switch (step.kind) {
+    case "create-branch":
+      return `Create branch '${step.branch}' at ${displayRev(step.at)}`;
+    case "switch":
+      return `Switch to '${step.branch}'`;
+    case "reset-hard":
+      return `Reset the current branch to '${displayRev(step.target)}'`;
+    case "update-ref":
+      return `Point ${step.ref} at ${shortSha(step.sha)}`;
+  }
+}
+
+// Run a plan step by step. Before each step the executor records how to undo
+// it; if a step fails, the recorded compensations run in reverse so refs,
+// index, HEAD and working tree end up where the plan started.
+export async function executePlan(
+  git: Git,
+  logger: Logger,
+  plan: Plan
+): Promise<void> {
+  const compensations: Compensation[] = [];
+
+  for (const [index, step] of plan.steps.entries()) {
+    const description = describeStep(step);
+    logger.verbose(`Step ${index + 1}/${plan.steps.length}: ${description}`);
+
+    try {
+      compensations.push(await compensationFor(git, step));
+      await runStep(git, step);
+    } catch (error) {
+      logger.warn(`Step failed: ${description}. Rolling back...`);
+      const leftovers = await compensate(logger, compensations);
+      throw new PlanExecutionError(
+        index + 1,
+        description,
+        error,
+        leftovers.map((compensation) => compensation.description)
+      );
+    }
+  }
+}
+
+async function runStep(git: Git, step: PlanStep): Promise<void> {
+  switch (step.kind) {
+    case "create-branch":
+      await git.exec(["branch", step.branch, step.at]);
+      return;
+    case "switch":
+      await git.switchBranch(step.branch);
+      return;
+    case "reset-hard":
+      await git.resetHard(step.target);
+      return;
+    case "update-ref":
+      await git.updateRef(step.ref, step.sha, step.expected);
+      return;
+  }
+}
+
+// Capture, before the step runs, whatever is needed to put things back.
+// Every compensation restores recorded values, so running one for a step
+// that failed halfway (or never started) is harmless.
+async function compensationFor(
+  git: Git,
+  step: PlanStep
+): Promise<Compensation> {
+  switch (step.kind) {
+    case "create-branch": {
+      const ref = `refs/heads/${step.branch}`;
+      return restoreRef(git, ref, await git.resolveRef(ref));
+    }
+    case "update-ref":
+      return restoreRef(git, step.ref, await git.resolveRef(step.ref));
+    case "switch": {
+      const branch = await git.getSymbolicHead();
+      const head = await git.resolveRef("HEAD");
+      return {
+        description: `switch back to ${branch ? `'${branch}'` : shortSha(head)}`,
+        undo: async () => {
+          if (branch) {
+            await git.switchBranch(branch);
+          } else if (head) {
+            await git.exec(["checkout", "--detach", head]);
+          }
+        },
+      };
+    }
+    case "reset-hard": {
+      const head = await git.resolveRef("HEAD");
+      // Keep local edits (staged and unstaged) so undoing the reset brings
+      // them back too
+      const edits = await git.stashCreate();
+      return {
+        description: `reset back to ${shortSha(head)}${
+          edits ? ` and reapply local changes (${shortSha(edits)})` : ""
+        }`,
+        undo: async () => {
+          if (!head || (await untouchedSince(git, head, edits))) return;
+          await git.resetHard(head);
+          if (edits) {
+            await git.exec(["stash", "apply", "--index", edits]);
+          }
+        },
+      };
+    }
+  }
+}
+
+function restoreRef(
+  git: Git,
+  ref: string,
+  previous: string | null
+): Compensation {
+  return {
+    description: previous
+      ? `reset ${ref} to ${shortSha(previous)}`
+      : `delete ${ref}`,
+    undo: async () => {
+      if (previous) {
+        await git.updateRef(ref, previous);
+      } else if (await git.resolveRef(ref)) {
+        await git.deleteRef(ref);
+      }
+    },
+  };
+}
+
+// Undo in reverse order; returns the compensations that could not be applied
+async function compensate(
+  logger: Logger,
+  compensations: Compensation[]
+): Promise<Compensation[]> {
+  const failed: Compensation[] = [];
+
+  for (const compensation of [...compensations].reverse()) {
+    try {
+      logger.verbose(`Rollback: ${compensation.description}`);
+      await compensation.undo();
+    } catch (error) {
+      logger.verbose(`Rollback step failed: ${error}`);
+      failed.push(compensation);
+    }
+  }
+
+  return failed;
+}
+
+// True if HEAD and the working tree are exactly as recorded, i.e. the step
+// failed before changing anything
+async function untouchedSince(
+  git: Git,
+  head: string,
+  edits: string | null
+): Promise<boolean> {
+  if ((await git.resolveRef("HEAD")) !== head) return false;
+
+  const current = await git.stashCreate();
+  if (!current || !edits) return current === edits;
+  return (
+    (await git.resolveRef(`${current}^{tree}`)) ===
+    (await git.resolveRef(`${edits}^{tree}`))
+  );
+}
+
+function displayRev(rev: string): string {
+  return /^[0-9a-f]{40}$/.test(rev) ? shortSha(rev) : rev;
+}
@@ -0,0 +1,200 @@
+import { Git } from "./git.js";
+import { formatTimestamp, sanitizeBranchName } from "../utils.js";
+import { ValidationError } from "../types.js";
+
+export const POCKET_REF_PREFIX = "refs/pocket/";
+
+// Pocket ids sort chronologically: <yyyymmdd>-<hhmmss>-<ms>
+const POCKET_ID_PATTERN = /^\d{8}-\d{6}-\d{3}$/;
+
+export interface Pocket {
+  ref: string;
+  branch: string;
+  id: string;
+  sha: string;
+  timestamp: string;
+  message: string;
+}
+
+// A pocket pushed to a shared remote, namespaced by whoever pushed it
+export interface RemotePocket {
+  ref: string;
+  user: string;
+  branch: string;
+  id: string;
+  sha: string;
+  timestamp: string;
+}
+
+export function newPocketId(date = new Date()): string {
+  return `${formatTimestamp(date)}-${String(date.getUTCMilliseconds()).padStart(
+    3,
+    "0"
+  )}`;
+}
+
+export function pocketRef(branch: string, id: string): string {
+  return `${POCKET_REF_PREFIX}${branch}/${id}`;
+}
+
+// On remotes pockets live under refs/pocket/<user>/<branch>/<id> so that
+// teammates pocketing the same branch never overwrite each other
+export function remotePocketRef(
+  user: string,
+  branch: string,
+  id: string
+): string {
+  return `${POCKET_REF_PREFIX}${user}/${branch}/${id}`;
+}
+
+// Ids are UTC timestamps, so the ref name alone says when a pocket was made
+export function pocketIdTimestamp(id: string): string {
+  const [, y, mo, d, h, mi, s, ms] =
+    id.match(/^(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})-(\d{3})$/) || [];
+  return `${y}-${mo}-${d}T${h}:${mi}:${s}.${ms}Z`;
+}
+
+// The namespace used for pushed pockets: the local part of user.email,
+// falling back to user.name
+export async function pocketUser(git: Git): Promise<string> {
+  for (const key of ["user.email", "user.name"]) {
+    try {
+      const value = (await git.exec(["config", "--get", key])).trim();
+      const user = sanitizeBranchName(value.split("@")[0]);
+      if (user) return user;
+    } catch {
+      // Not set, try the next one
+    }
+  }
+
+  throw new ValidationError(
+    "Cannot tell who you are to namespace the pocket. Set git config user.email"
+  );
+}
+
+// Pockets pushed to a remote, newest first
+export async function listRemotePockets(
+  git: Git,
+  remote: string
+): Promise<RemotePocket[]> {
+  const output = await git.exec([
+    "ls-remote",
+    "--refs",
+    remote,
+    `${POCKET_REF_PREFIX}*`,
+  ]);
+
+  const pockets: RemotePocket[] = [];
+  for (const line of output.split("\n")) {
+    if (line.trim() === "") continue;
+
+    const [sha, ref] = line.split("\t");
+    const parts = ref.slice(POCKET_REF_PREFIX.length).split("/");
+    const id = parts[parts.length - 1];
+
+    // Needs at least <user>/<branch>/<id>; anything else was pushed by an
+    // older version without a user namespace
+    if (parts.length < 3 || !POCKET_ID_PATTERN.test(id)) continue;
+
+    pockets.push({
+      ref,
+      user: parts[0],
+      branch: parts.slice(1, -1).join("/"),
+      id,
+      sha,
+      timestamp: pocketIdTimestamp(id),
+    });
+  }
+
+  return pockets.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+// Pockets for a branch, newest first
+export async function listPockets(
+  git: Git,
+  branch?: string
+): Promise<Pocket[]> {
+  const pattern = branch ? `${POCKET_REF_PREFIX}${branch}/` : POCKET_REF_PREFIX;
+  const output = await git.exec([
+    "for-each-ref",
+    "--format=%(refname)%00%(objectname)%00%(creatordate:iso-strict)%00%(contents:subject)",
+    pattern,
+  ]);
+
+  const pockets: Pocket[] = [];
+  for (const line of output.split("\n")) {
+    if (line.trim() === "") continue;
+
+    const [ref, sha, timestamp, subject] = line.split("\0");
+    const rest = ref.slice(POCKET_REF_PREFIX.length);
+    const slash = rest.lastIndexOf("/");
+    const id = rest.slice(slash + 1);
+    const pocketBranch = rest.slice(0, slash);
+
+    // Skip legacy single refs and pockets of nested branch names (a/b when
+    // listing a)
+    if (slash < 0 || !POCKET_ID_PATTERN.test(id)) continue;
+    if (branch && pocketBranch !== branch) continue;
+
+    pockets.push({
+      ref,
+      branch: pocketBranch,
+      id,
+      sha,
+      timestamp,
+      message: parsePocketMessage(subject),
+    });
+  }
+
+  return pockets.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+export async function getPocket(
+  git: Git,
+  branch: string,
+  index: number
+): Promise<Pocket> {
+  const pockets = await listPockets(git, branch);
+  if (pockets.length === 0) {
+    throw new ValidationError(`No pockets saved for branch '${branch}'`);
+  }
+
+  const pocket = pockets[index];
+  if (!pocket) {
+    throw new ValidationError(
+      `Pocket ${index} not found for '${branch}' (${pockets.length} saved). See: git oops pocket list`
+    );
+  }
+
+  return pocket;
+}
+
+// Earlier versions kept a single refs/pocket/<branch> ref, which would block
+// the refs/pocket/<branch>/<id> stack; move it into the stack instead
+export async function migrateLegacyPocket(
+  git: Git,
+  branch: string
+): Promise<string | null> {
+  const legacyRef = `${POCKET_REF_PREFIX}${branch}`;
+  const sha = await git.resolveRef(legacyRef);
+  if (!sha) return null;
+
+  const date = new Date(
+    (await git.exec(["show", "-s", "--format=%cI", sha])).trim()
+  );
+  const ref = pocketRef(branch, newPocketId(date));
+
+  await git.deleteRef(legacyRef);
+  await git.updateRef(ref, sha);
+  return ref;
+}
+
+// A pocket holding only a commit (no stash parents) has no changes to apply
+export async function isStashLike(git: Git, sha: string): Promise<boolean> {
+  const parents = await git.exec(["rev-list", "--parents", "-n", "1", sha]);
+  return parents.trim().split(" ").length >= 3;
+}
+
+export function parsePocketMessage(subject: string): string {
+  return subject.replace(/^(WIP on|On) [^:]+: /, "");
+}
@@ -0,0 +1,189 @@
+import { execa } from "execa";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { Git } from "./git.js";
+import {
+  DiffSource,
+  describeCommit,
+  fillMessageTemplate,
+  stagedDiff,
+} from "./messages.js";
+import { isJsonMode } from "./report.js";
+import { Logger, input, select, truncateText } from "../utils.js";
+import { ExternalToolError } from "../types.js";
+
+// What a provider is told about the commit it should describe. External
+// providers receive exactly this object as JSON on stdin.
+export interface MessageRequest {
+  version: 1;
+  command: "save" | "fixup" | "split";
+  branch: string | null;
+  scope: string;
+  files: string[];
+  // Unified diff of the changes the commit will contain
+  diff: string;
+  // The built-in heuristic's suggestion, which providers may refine or ignore
+  heuristic: string;
+  // fixup: the message of the commit being amended
+  previousMessage?: string;
+}
+
+export interface MessageProvider {
+  name: string;
+  suggest(request: MessageRequest): Promise<string>;
+}
+
+// How long an external provider may take before it is abandoned
+const PROVIDER_TIMEOUT_MS = 60_000;
+
+export const heuristicProvider: MessageProvider = {
+  name: "heuristic",
+  suggest: async (request) => request.heuristic,
+};
+
+// Run a user-configured command. It gets the request as JSON on stdin and
+// prints either the message itself or {"message": "..."} on stdout.
+export function commandProvider(command: string): MessageProvider {
+  return {
+    name: command,
+    suggest: async (request) => {
+      let stdout: string;
+      try {
+        stdout = await withRequestFile(request, async (stdin) => {
+          const result = await execa(command, {
+            shell: true,
+            stdin,
+            timeout: PROVIDER_TIMEOUT_MS,
+          });
+          return result.stdout.trim();
+        });
+      } catch (error: any) {
+        throw new ExternalToolError(
+          `Message provider '${command}' ${
+            error.timedOut
+              ? `timed out after ${PROVIDER_TIMEOUT_MS / 1000}s`
+              : error.exitCode
+                ? `exited with code ${error.exitCode}`
+                : `failed: ${error.shortMessage || error.message}`
+          }`,
+          error
+        );
+      }
+
+      const message = parseSuggestion(stdout);
+      if (message === "") {
+        throw new ExternalToolError(
+          `Message provider '${command}' returned no message`
+        );
+      }
+      return message;
+    },
+  };
+}
+
+// Describe the staged changes in `source` for a provider, including the
+// heuristic message filled into `template`
+export async function buildMessageRequest(
+  git: Git,
+  command: MessageRequest["command"],
+  source: DiffSource,
+  options: { template: string; scope?: string; previousMessage?: string }
+): Promise<MessageRequest> {
+  const parts = await describeCommit(git, source, options.scope);
+  return {
+    version: 1,
+    command,
+    branch: await git.getSymbolicHead(),
+    scope: parts.scope,
+    files: parts.files,
+    diff: await stagedDiff(git, source),
+    heuristic: fillMessageTemplate(options.template, parts),
+    previousMessage: options.previousMessage,
+  };
+}
+
+// The configured provider (oops.messageProvider), or the built-in heuristic
+export function getMessageProvider(command: string): MessageProvider {
+  return command.trim() === "" ? heuristicProvider : commandProvider(command);
+}
+
+// Ask the provider for a message and let the user accept, edit or reject it.
+// A failing provider falls back to the heuristic; rejecting falls back to
+// `fallback`. With --yes, in --json mode, or when review is off, the
+// suggestion is taken as is.
+export async function suggestMessage(
+  provider: MessageProvider,
+  request: MessageRequest,
+  logger: Logger,
+  options: { review: boolean; fallback: string }
+): Promise<string> {
+  let suggestion: string;
+  try {
+    suggestion = await provider.suggest(request);
+  } catch (error: any) {
+    logger.warn(`${error.message}. Using the built-in suggestion`);
+    suggestion = request.heuristic;
+  }
+
+  if (!options.review || isJsonMode()) {
+    return suggestion;
+  }
+
+  logger.info(`\n💡 Suggested message (${provider.name}):`);
+  logger.info(`  ${suggestion.split("\n").join("\n  ")}`);
+
+  const choice = await select(
+    "Use this message?",
+    [
+      { name: "Accept", value: "accept" },
+      { name: "Edit", value: "edit" },
+      {
+        name: `Reject (use "${truncateText(options.fallback.split("\n")[0], 50)}")`,
+        value: "reject",
+      },
+    ],
+    "accept"
+  );
+
+  if (choice === "edit") {
+    return input("Commit message:", suggestion, "Enter a commit message");
+  }
+  return choice === "accept" ? suggestion : options.fallback;
+}
+
+// Hand the request over as a file rather than a pipe, so a provider that
+// never reads stdin (such as a plain echo) does not fail with EPIPE
+async function withRequestFile<T>(
+  request: MessageRequest,
+  fn: (fd: number) => Promise<T>
+): Promise<T> {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "git-oops-"));
+  const file = path.join(directory, "request.json");
+
+  try {
+    await fs.writeFile(file, JSON.stringify(request));
+    const handle = await fs.open(file, "r");
+    try {
+      return await fn(handle.fd);
+    } finally {
+      await handle.close();
+    }
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+function parseSuggestion(stdout: string): string {
+  if (stdout.startsWith("{")) {
+    try {
+      const parsed = JSON.parse(stdout);
+      if (typeof parsed?.message === "string") {
+        return parsed.message.trim();
+      }
+    } catch {
+      // Not JSON after all: use the text as is
+    }
+  }
+  return stdout;
+}
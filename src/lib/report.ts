@@ -0,0 +1,102 @@
+import { GitOopsError, JournalEntry, RefChange } from "../types.js";
+
+// The single object printed in --json mode, whatever the command
+export interface OperationResult {
+  operation: string;
+  ok: boolean;
+  dryRun: boolean;
+  journalId: number | null;
+  refs: RefChange[];
+  commits: string[];
+  safetyTags: string[];
+  stashes: string[];
+  warnings: string[];
+  plan: string[];
+  data?: unknown;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+let current: OperationResult | null = null;
+
+// Switch to --json mode: prose output is suppressed and everything a command
+// does is collected here instead
+export function startReport(operation = "git-oops"): void {
+  current = {
+    operation,
+    ok: true,
+    dryRun: false,
+    journalId: null,
+    refs: [],
+    commits: [],
+    safetyTags: [],
+    stashes: [],
+    warnings: [],
+    plan: [],
+  };
+}
+
+export function isJsonMode(): boolean {
+  return current !== null;
+}
+
+export function setReportOperation(operation: string): void {
+  if (current) current.operation = operation;
+}
+
+export function reportEntry(entry: JournalEntry): void {
+  if (!current) return;
+
+  current.journalId = entry.id;
+  current.refs.push(
+    ...entry.refs.filter((change) => change.before !== change.after)
+  );
+  current.commits.push(...entry.commits);
+  current.safetyTags.push(...entry.safetyTags);
+  current.stashes.push(...entry.stashes);
+}
+
+export function reportWarning(message: string): void {
+  current?.warnings.push(message.trim());
+}
+
+export function reportPlan(steps: string[]): void {
+  if (!current) return;
+
+  current.dryRun = true;
+  current.plan.push(...steps);
+}
+
+// Command-specific payload, e.g. the entries listed by 'history'
+export function reportData(data: unknown): void {
+  if (current) current.data = data;
+}
+
+export function reportError(error: any): void {
+  if (!current) return;
+
+  current.ok = false;
+  current.error = {
+    code: errorCode(error),
+    message: error?.message || String(error),
+  };
+}
+
+export function emitReport(): void {
+  if (!current) return;
+
+  process.stdout.write(JSON.stringify(current, null, 2) + "\n");
+  current = null;
+}
+
+function errorCode(error: any): string {
+  if (error instanceof GitOopsError) {
+    return error.errorCode;
+  }
+  if (typeof error?.code === "string" && error.code.startsWith("commander.")) {
+    return "USAGE_ERROR";
+  }
+  return "UNEXPECTED_ERROR";
+}
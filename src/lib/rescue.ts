@@ -0,0 +1,250 @@
+import { EMPTY_TREE, Git } from "./git.js";
+import { ValidationError } from "../types.js";
+
+export type RescueKind = "stash-like" | "reflog" | "dangling";
+
+export interface RescueCandidate {
+  sha: string;
+  kind: RescueKind;
+  // Where it was found: a reflog selector such as HEAD@{3}, or "fsck"
+  source: string;
+  timestamp: string;
+  subject: string;
+  parents: string[];
+  diffstat: string;
+}
+
+export interface RescueOptions {
+  // How many entries of each reflog to look through
+  reflogDepth?: number;
+}
+
+// Commits that no branch, tag or other ref can reach any more, newest first.
+// Reflogs catch resets and amends, fsck catches dropped stashes and commits
+// whose reflog went away with a deleted branch.
+export async function findRescueCandidates(
+  git: Git,
+  options: RescueOptions = {}
+): Promise<RescueCandidate[]> {
+  const sources = new Map<string, string>();
+
+  const reflogs = ["HEAD", ...(await listBranchRefs(git))];
+  for (const ref of reflogs) {
+    for (const [sha, selector] of await readReflog(
+      git,
+      ref,
+      options.reflogDepth ?? 200
+    )) {
+      if (!sources.has(sha)) sources.set(sha, selector);
+    }
+  }
+
+  const lostFromReflogs = await filterUnreachable(git, [...sources.keys()]);
+  const dangling = await listUnreachableCommits(git);
+
+  const candidates = await describeCommits(git, [
+    ...lostFromReflogs,
+    ...dangling.filter((sha) => !sources.has(sha)),
+  ]);
+
+  // Only keep tips: a lost chain is recovered through its newest commit, and
+  // a stash's index/untracked commits come back with the stash itself
+  const parentsOfOthers = new Set(
+    candidates.flatMap((candidate) => candidate.parents)
+  );
+
+  const tips: RescueCandidate[] = [];
+  for (const candidate of candidates) {
+    if (parentsOfOthers.has(candidate.sha)) continue;
+    tips.push({
+      ...candidate,
+      kind: isStashShaped(candidate)
+        ? "stash-like"
+        : sources.has(candidate.sha)
+          ? "reflog"
+          : "dangling",
+      source: sources.get(candidate.sha) ?? "fsck",
+      // Only for the tips: a diff per lost commit is slow when fsck finds
+      // thousands
+      diffstat: await diffstat(git, candidate.sha, candidate.parents[0]),
+    });
+  }
+  return tips.sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
+}
+
+// Pick a candidate by list index or by (abbreviated) SHA
+export function selectCandidate(
+  candidates: RescueCandidate[],
+  selector: string
+): RescueCandidate {
+  if (/^\d+$/.test(selector) && selector.length < 7) {
+    const candidate = candidates[parseInt(selector, 10)];
+    if (!candidate) {
+      throw new ValidationError(
+        `No rescue candidate ${selector} (${candidates.length} found). See: git oops rescue`
+      );
+    }
+    return candidate;
+  }
+
+  const matches = candidates.filter((candidate) =>
+    candidate.sha.startsWith(selector.toLowerCase())
+  );
+  if (matches.length !== 1) {
+    throw new ValidationError(
+      matches.length === 0
+        ? `'${selector}' is not a lost commit. See: git oops rescue`
+        : `'${selector}' is ambiguous; use more characters`
+    );
+  }
+  return matches[0];
+}
+
+// Stashes and pockets must be stash-shaped; wrap a plain commit's changes
+// (relative to its parent) into one so 'git stash apply' brings them back
+export async function toStashLike(
+  git: Git,
+  candidate: RescueCandidate,
+  message: string
+): Promise<string> {
+  if (candidate.kind === "stash-like") {
+    return candidate.sha;
+  }
+
+  const base = candidate.parents[0];
+  if (!base) {
+    throw new ValidationError(
+      "A root commit has no parent to express its changes against. Recover it as a branch instead"
+    );
+  }
+
+  const tree = `${candidate.sha}^{tree}`;
+  const indexCommit = (
+    await git.exec([
+      "commit-tree",
+      tree,
+      "-p",
+      base,
+      "-m",
+      `index on ${message}`,
+    ])
+  ).trim();
+  return (
+    await git.exec([
+      "commit-tree",
+      tree,
+      "-p",
+      base,
+      "-p",
+      indexCommit,
+      "-m",
+      message,
+    ])
+  ).trim();
+}
+
+async function listBranchRefs(git: Git): Promise<string[]> {
+  const output = await git.exec([
+    "for-each-ref",
+    "--format=%(refname)",
+    "refs/heads/",
+  ]);
+  return output.split("\n").filter((line) => line.trim() !== "");
+}
+
+async function readReflog(
+  git: Git,
+  ref: string,
+  depth: number
+): Promise<Array<[string, string]>> {
+  try {
+    const output = await git.exec([
+      "log",
+      "-g",
+      `-${depth}`,
+      "--format=%H%x00%gD",
+      ref,
+      "--",
+    ]);
+    return output
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => {
+        const [sha, selector] = line.split("\0");
+        return [sha, selector.replace(/^refs\/heads\//, "")];
+      });
+  } catch {
+    // No reflog for this ref (e.g. core.logAllRefUpdates is off)
+    return [];
+  }
+}
+
+// The subset of shas that no ref can reach
+async function filterUnreachable(git: Git, shas: string[]): Promise<string[]> {
+  if (shas.length === 0) return [];
+
+  const output = await git.exec(["rev-list", ...shas, "--not", "--all"]);
+  const unreachable = new Set(output.split("\n"));
+  return shas.filter((sha) => unreachable.has(sha));
+}
+
+async function listUnreachableCommits(git: Git): Promise<string[]> {
+  const output = await git.exec(["fsck", "--unreachable", "--no-progress"]);
+  return output
+    .split("\n")
+    .map((line) => line.match(/^unreachable commit ([0-9a-f]+)/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => match[1]);
+}
+
+async function describeCommits(
+  git: Git,
+  shas: string[]
+): Promise<RescueCandidate[]> {
+  if (shas.length === 0) return [];
+
+  const output = await git.exec([
+    "log",
+    "--no-walk=unsorted",
+    "--format=%H%x00%P%x00%cI%x00%s",
+    ...shas,
+  ]);
+
+  const candidates: RescueCandidate[] = [];
+  for (const line of output.split("\n")) {
+    if (line.trim() === "") continue;
+
+    const [sha, parents, timestamp, subject] = line.split("\0");
+    candidates.push({
+      sha,
+      kind: "dangling",
+      source: "fsck",
+      timestamp,
+      subject,
+      parents: parents.split(" ").filter((parent) => parent !== ""),
+      diffstat: "",
+    });
+  }
+  return candidates;
+}
+
+async function diffstat(
+  git: Git,
+  sha: string,
+  parent?: string
+): Promise<string> {
+  const output = await git.exec([
+    "diff",
+    "--shortstat",
+    parent || EMPTY_TREE,
+    sha,
+  ]);
+  return output.trim() || "no changes";
+}
+
+function isStashShaped(candidate: RescueCandidate): boolean {
+  return (
+    candidate.parents.length >= 2 &&
+    /^(WIP on|On) [^:]+: /.test(candidate.subject)
+  );
+}
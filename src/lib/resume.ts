@@ -0,0 +1,39 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Git } from "./git.js";
+import { Journal } from "./journal.js";
+
+// State of a command that stopped half-way (usually on a conflict) so that
+// '<command> --continue' or '--abort' can pick it up. Stored next to the
+// journal as .git/oops/<command>.json.
+async function stateFile(git: Git, command: string): Promise<string> {
+  return path.join(await new Journal(git).getDirectory(), `${command}.json`);
+}
+
+export async function saveResumeState<T>(
+  git: Git,
+  command: string,
+  state: T
+): Promise<void> {
+  const file = await stateFile(git, command);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(state, null, 2) + "\n");
+}
+
+export async function loadResumeState<T>(
+  git: Git,
+  command: string
+): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(await stateFile(git, command), "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+export async function clearResumeState(
+  git: Git,
+  command: string
+): Promise<void> {
+  await fs.rm(await stateFile(git, command), { force: true });
+}
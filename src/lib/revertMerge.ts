@@ -0,0 +1,319 @@
+import { Git } from "./git.js";
+import { pluralize, shortSha } from "../utils.js";
+import { ConflictError, ValidationError } from "../types.js";
+
+// One parent of a merge, as revert-merge presents it
+export interface MergeParent {
+  // 1-based, as git revert -m counts
+  number: number;
+  sha: string;
+  // The branch this parent was the tip of, if the merge message or a reflog
+  // tells
+  name: string | null;
+  nameSource: "merge message" | "reflog" | null;
+  // On the first-parent history of HEAD, i.e. the current branch's own line
+  onFirstParentHistory: boolean;
+  // What the merge brought in relative to this parent, which is what
+  // reverting with this parent as mainline undoes
+  diffstat: string;
+}
+
+export async function describeMergeParents(
+  git: Git,
+  merge: string
+): Promise<MergeParent[]> {
+  const parents = await parentsOf(git, merge);
+  const mergeSha = (await git.resolveRef(merge))!;
+
+  const firstParentHistory = new Set(
+    (await git.exec(["rev-list", "--first-parent", "HEAD"]))
+      .split("\n")
+      .filter(Boolean)
+  );
+
+  const names: Array<{ name: string; source: "merge message" | "reflog" }> = [];
+  const subject = (await git.exec(["log", "-1", "--format=%s", merge])).trim();
+  namesFromSubject(subject, parents.length).forEach((name, index) => {
+    if (name) names[index] = { name, source: "merge message" };
+  });
+  if (parents.some((_, index) => !names[index])) {
+    (await namesFromReflogs(git, mergeSha)).forEach((name, index) => {
+      if (name && !names[index]) names[index] = { name, source: "reflog" };
+    });
+  }
+
+  const result: MergeParent[] = [];
+  for (const [index, sha] of parents.entries()) {
+    result.push({
+      number: index + 1,
+      sha,
+      name: names[index]?.name ?? null,
+      nameSource: names[index]?.source ?? null,
+      onFirstParentHistory: firstParentHistory.has(sha),
+      diffstat: (
+        await git.exec(["diff", "--stat", "--stat-count=10", sha, mergeSha])
+      ).trim(),
+    });
+  }
+  return result;
+}
+
+// The mainline is the parent on the current branch's own line. Null when
+// that does not single one out: the merge is not in HEAD's history, or more
+// than one parent is on its first-parent line.
+export function detectMainline(parents: MergeParent[]): number | null {
+  const onHistory = parents.filter((parent) => parent.onFirstParentHistory);
+  return onHistory.length === 1 ? onHistory[0].number : null;
+}
+
+// git's own merge messages: "Merge branch 'x' [of <url>] [into y]",
+// "Merge remote-tracking branch 'origin/x'", "Merge branches 'a', 'b' and
+// 'c'", "Merge tag 'v1'", and "Merge pull request #1 from user/x"
+function namesFromSubject(
+  subject: string,
+  count: number
+): Array<string | null> {
+  const names: Array<string | null> = new Array(count).fill(null);
+
+  const pullRequest = subject.match(/^Merge pull request #\d+ from (\S+)/);
+  if (pullRequest) {
+    names[1] = pullRequest[1];
+    return names;
+  }
+
+  const single = subject.match(
+    /^Merge (?:remote-tracking branch|branch|tag) '?([^'\s]+)'?(?: of \S+)?(?: into (\S+))?$/
+  );
+  if (single) {
+    names[0] = single[2] ?? null;
+    names[1] = single[1];
+    return names;
+  }
+
+  const several = subject.match(
+    /^Merge (?:remote-tracking )?branches (.+?)(?: of \S+)?(?: into (\S+))?$/
+  );
+  if (several) {
+    names[0] = several[2] ?? null;
+    several[1]
+      .split(/, | and /)
+      .map((name) => name.replace(/^'|'$/g, ""))
+      .forEach((name, index) => {
+        if (index + 1 < count) names[index + 1] = name;
+      });
+  }
+  return names;
+}
+
+// A "merge <name>: ..." reflog entry for the merge names the branch that was
+// merged in; when it is in a branch's reflog, that branch is the first parent
+async function namesFromReflogs(
+  git: Git,
+  merge: string
+): Promise<Array<string | null>> {
+  const names: Array<string | null> = [null, null];
+  const branches = (
+    await git.exec(["for-each-ref", "--format=%(refname)", "refs/heads"])
+  )
+    .split("\n")
+    .filter(Boolean);
+
+  for (const ref of ["HEAD", ...branches]) {
+    let entries: string;
+    try {
+      entries = await git.exec([
+        "reflog",
+        "show",
+        "--format=%H%x09%gs",
+        ref,
+        "--",
+      ]);
+    } catch {
+      // No reflog for this ref
+      continue;
+    }
+
+    for (const line of entries.split("\n")) {
+      const [sha, message] = line.split("\t");
+      const merged = message?.match(/^merge (\S+?):/);
+      if (sha !== merge || !merged) continue;
+      names[1] ??= merged[1];
+      if (ref !== "HEAD") {
+        names[0] ??= ref.slice("refs/heads/".length);
+      }
+    }
+    if (names[0] && names[1]) break;
+  }
+  return names;
+}
+
+// A reverted merge to bring back. Re-merging the branch would bring in
+// nothing, as its commits are already merged, so the revert is reverted.
+export interface Reland {
+  revert: string;
+  merge: string;
+  // The parent the revert went back to
+  mainline: number;
+  parents: MergeParent[];
+  // The branch that was merged in, if it still exists and has moved on
+  feature: { name: string; newer: number } | null;
+  // Why the branch's newer commits cannot be looked up, if they cannot
+  featureNote: string | null;
+}
+
+// `sha` is the revert commit, or the merge itself, in which case its revert
+// is looked up on the current branch
+export async function planReland(git: Git, sha: string): Promise<Reland> {
+  const commit = await git.resolveRef(`${sha}^{commit}`);
+  if (!commit) {
+    throw new ValidationError(`Commit ${sha} not found`);
+  }
+
+  let revert = commit;
+  if ((await parentsOf(git, commit)).length > 1) {
+    const found = await findRevertOf(git, commit);
+    if (!found) {
+      throw new ValidationError(
+        `No revert of merge ${shortSha(commit)} found on the current branch`
+      );
+    }
+    revert = found;
+  }
+
+  const body = await git.exec(["log", "-1", "--format=%B", revert]);
+  const reverted = body.match(
+    /This reverts commit ([0-9a-f]{40}),\s+reversing\s+changes made to ([0-9a-f]{40})/
+  );
+  if (!reverted) {
+    throw new ValidationError(
+      `${shortSha(revert)} is not the revert of a merge commit`
+    );
+  }
+  if (!(await git.isAncestor(revert, "HEAD"))) {
+    throw new ValidationError(
+      `Revert ${shortSha(revert)} is not on the current branch`
+    );
+  }
+  const relanded = await findRevertOf(git, revert);
+  if (relanded) {
+    throw new ValidationError(
+      `Revert ${shortSha(revert)} was already reverted by ${shortSha(relanded)}, so the merge is back`
+    );
+  }
+
+  const [, merge, mainlineParent] = reverted;
+  const parents = await describeMergeParents(git, merge);
+  const mainline =
+    parents.findIndex((parent) => parent.sha === mainlineParent) + 1;
+  const reland: Reland = {
+    revert,
+    merge,
+    mainline,
+    parents,
+    feature: null,
+    featureNote: null,
+  };
+
+  const merged = parents.filter((parent) => parent.number !== mainline);
+  if (merged.length !== 1) {
+    reland.featureNote = `Merged ${pluralize(merged.length, "branch", "branches")} at once; merge newer commits by hand`;
+    return reland;
+  }
+  const [side] = merged;
+  if (!side.name) {
+    reland.featureNote =
+      "The merged branch's name is unknown, so newer commits are not looked up";
+    return reland;
+  }
+  const tip = await git.resolveRef(`${side.name}^{commit}`);
+  if (!tip) {
+    reland.featureNote = `'${side.name}' no longer exists`;
+    return reland;
+  }
+  if (!(await git.isAncestor(side.sha, tip))) {
+    reland.featureNote = `'${side.name}' was rewritten since the merge; merge it by hand`;
+    return reland;
+  }
+
+  reland.feature = {
+    name: side.name,
+    newer: await git.countCommits(`HEAD..${tip}`),
+  };
+  return reland;
+}
+
+// Revert the revert, which brings the merge's changes back as a new commit
+export async function reapplyMerge(
+  git: Git,
+  reland: Reland,
+  safetyTag: string
+): Promise<void> {
+  try {
+    await git.exec(["revert", "--no-edit", reland.revert]);
+  } catch (error: any) {
+    if (!(await git.resolveRef("REVERT_HEAD"))) {
+      throw error;
+    }
+    throw new ConflictError(
+      [
+        `Reverting ${shortSha(reland.revert)} stopped on a conflict.`,
+        "  • Resolve the conflicts, then: git add <files> && git revert --continue",
+        "  • Or stop: git revert --abort",
+        ...(reland.feature?.newer
+          ? [
+              `  • Then bring in the newer commits: git merge ${reland.feature.name}`,
+            ]
+          : []),
+        `  • The branch as it was before: ${safetyTag}`,
+      ].join("\n"),
+      error
+    );
+  }
+}
+
+// Merge the commits the branch gained since it was first merged
+export async function mergeNewerCommits(
+  git: Git,
+  reland: Reland,
+  safetyTag: string
+): Promise<void> {
+  const { name } = reland.feature!;
+  try {
+    await git.exec(["merge", "--no-ff", "--no-edit", name]);
+  } catch (error: any) {
+    if (!(await git.mergeInProgress())) {
+      throw error;
+    }
+    throw new ConflictError(
+      [
+        `Merging the newer commits from '${name}' stopped on a conflict.`,
+        "  • Resolve the conflicts, then: git add <files> && git merge --continue",
+        "  • Or leave them out: git merge --abort (the re-landed merge stays)",
+        `  • The branch as it was before: ${safetyTag}`,
+      ].join("\n"),
+      error
+    );
+  }
+}
+
+async function parentsOf(git: Git, commit: string): Promise<string[]> {
+  const [, ...parents] = (
+    await git.exec(["rev-list", "--parents", "-n", "1", commit])
+  )
+    .trim()
+    .split(" ");
+  return parents;
+}
+
+// The newest commit on the current branch whose message says it reverts
+// `commit`
+async function findRevertOf(git: Git, commit: string): Promise<string | null> {
+  const output = await git.exec([
+    "log",
+    "--format=%H",
+    "--fixed-strings",
+    `--grep=This reverts commit ${commit}`,
+    "HEAD",
+  ]);
+  return output.split("\n").filter(Boolean)[0] ?? null;
+}
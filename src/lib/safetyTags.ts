@@ -0,0 +1,81 @@
+import { Git } from "./git.js";
+import { formatTimestamp } from "../utils.js";
+import { SafetyTag } from "../types.js";
+
+export const SAFETY_TAG_PREFIX = "oops/";
+
+// Operations that create safety tags, longest names first so that
+// "revert-merge-…" is not mistaken for another operation's prefix
+const KNOWN_OPERATIONS = [
+  "tags-restore",
+  "revert-merge",
+  "wrong-branch",
+  "undo",
+];
+
+export function safetyTagName(operation: string, detail?: string): string {
+  const randomSuffix = Math.random().toString(36).substring(2, 8);
+  const parts = [operation, detail, formatTimestamp(), randomSuffix].filter(
+    Boolean
+  );
+  return `${SAFETY_TAG_PREFIX}${parts.join("-")}`;
+}
+
+export async function createSafetyTag(
+  git: Git,
+  name: string,
+  message: string,
+  target = "HEAD"
+): Promise<string> {
+  await git.exec(["tag", "-a", name, "-m", message, target]);
+  return name;
+}
+
+export function parseTagOperation(name: string): string {
+  const rest = name.startsWith(SAFETY_TAG_PREFIX)
+    ? name.slice(SAFETY_TAG_PREFIX.length)
+    : name;
+
+  const known = KNOWN_OPERATIONS.find((op) => rest.startsWith(`${op}-`));
+  return known || rest.split("-")[0];
+}
+
+export async function listSafetyTags(git: Git): Promise<SafetyTag[]> {
+  const output = await git.exec([
+    "for-each-ref",
+    "--sort=-creatordate",
+    "--format=%(refname:short)%00%(objectname)%00%(*objectname)%00%(creatordate:iso-strict)%00%(contents:subject)",
+    `refs/tags/${SAFETY_TAG_PREFIX}`,
+  ]);
+
+  const tags: SafetyTag[] = [];
+  for (const line of output.split("\n")) {
+    if (line.trim() === "") continue;
+
+    const [name, object, peeled, timestamp, message] = line.split("\0");
+    tags.push({
+      name,
+      // Annotated tags point at a tag object; report the commit it wraps
+      sha: peeled || object,
+      timestamp,
+      operation: parseTagOperation(name),
+      message,
+    });
+  }
+
+  return tags;
+}
+
+// True when no local or remote-tracking branch contains the commit
+export async function isUnreachable(git: Git, sha: string): Promise<boolean> {
+  const output = await git.exec([
+    "for-each-ref",
+    "--count=1",
+    "--contains",
+    sha,
+    "--format=%(refname)",
+    "refs/heads",
+    "refs/remotes",
+  ]);
+  return output.trim() === "";
+}
@@ -0,0 +1,204 @@
+import { Git } from "./git.js";
+import { ValidationError } from "../types.js";
+
+export interface SnapshotOptions {
+  message: string;
+  includeIgnored?: boolean;
+}
+
+export interface Snapshot {
+  // Stash-shaped commit: parents are HEAD, the index commit and, when there
+  // are untracked files, a commit holding them - so 'git stash apply --index'
+  // restores all three
+  sha: string;
+  untracked: string[];
+  // Untracked entries git cannot store, such as nested repositories
+  skipped: string[];
+}
+
+// Build a stash-format commit of the index, the working tree and untracked
+// (optionally ignored) files without touching any of them. Returns null when
+// there is nothing to save.
+export async function createSnapshot(
+  repo: Git,
+  options: SnapshotOptions
+): Promise<Snapshot | null> {
+  const git = await repo.atTopLevel();
+  const head = await git.resolveRef("HEAD");
+  if (!head) {
+    throw new ValidationError("Cannot snapshot a branch with no commits yet");
+  }
+
+  const indexTree = await git.writeTree();
+  if (!indexTree) {
+    throw new ValidationError(
+      "The index has unresolved conflicts. Resolve them before saving"
+    );
+  }
+
+  const headTree = await git.resolveRef(`${head}^{tree}`);
+  const workTree = await git.withTempIndex(
+    async (env) => {
+      await git.exec(["add", "-u"], { env });
+      return (await git.exec(["write-tree"], { env })).trim();
+    },
+    { seedFromIndex: true }
+  );
+
+  const others = await listUntracked(git, options.includeIgnored);
+  const untracked = others.filter((file) => !file.endsWith("/"));
+  const skipped = others.filter((file) => file.endsWith("/"));
+
+  if (
+    indexTree === headTree &&
+    workTree === headTree &&
+    untracked.length === 0
+  ) {
+    return null;
+  }
+
+  const branch = (await git.getSymbolicHead()) || "(no branch)";
+  const headSubject = (
+    await git.exec(["log", "-1", "--format=%h %s", head])
+  ).trim();
+
+  const indexCommit = await commitTree(
+    git,
+    indexTree,
+    [head],
+    `index on ${branch}: ${headSubject}`
+  );
+
+  const parents = [head, indexCommit];
+  if (untracked.length > 0) {
+    const untrackedTree = await git.withTempIndex(async (env) => {
+      await git.exec(["update-index", "--add", "-z", "--stdin"], {
+        env,
+        input: untracked.join("\0"),
+      });
+      return (await git.exec(["write-tree"], { env })).trim();
+    });
+    parents.push(
+      await commitTree(
+        git,
+        untrackedTree,
+        [],
+        `untracked files on ${branch}: ${headSubject}`
+      )
+    );
+  }
+
+  const sha = await commitTree(
+    git,
+    workTree,
+    parents,
+    `On ${branch}: ${options.message}`
+  );
+
+  return { sha, untracked, skipped };
+}
+
+// Rebuild the snapshot's full contents (tracked plus untracked) and compare
+// it with what is on disk right now. Any difference means restoring would not
+// give back the current state, so nothing destructive may run.
+export async function verifySnapshot(
+  repo: Git,
+  snapshot: Snapshot,
+  includeIgnored = false
+): Promise<boolean> {
+  const git = await repo.atTopLevel();
+  const expectedTree = await snapshotTree(git, snapshot.sha);
+
+  const diskTree = await git.withTempIndex(async (env) => {
+    await git.exec(["read-tree", snapshot.sha], { env });
+    await git.exec(
+      [
+        "add",
+        "-A",
+        "--",
+        ".",
+        ...snapshot.skipped.map((entry) => `:(exclude)${entry}`),
+      ],
+      { env }
+    );
+    if (includeIgnored) {
+      const others = await listUntracked(git, true);
+      await git.exec(["update-index", "--add", "-z", "--stdin"], {
+        env,
+        input: others.filter((file) => !file.endsWith("/")).join("\0"),
+      });
+    }
+    return (await git.exec(["write-tree"], { env })).trim();
+  });
+
+  return expectedTree === diskTree;
+}
+
+// The full tree a snapshot restores to: working tree plus untracked files
+export async function snapshotTree(repo: Git, sha: string): Promise<string> {
+  const git = await repo.atTopLevel();
+  const untrackedParent = await git.resolveRef(`${sha}^3`);
+
+  return git.withTempIndex(async (env) => {
+    await git.exec(["read-tree", sha], { env });
+    if (untrackedParent) {
+      const entries = await git.exec(["ls-tree", "-r", "-z", untrackedParent]);
+      await git.exec(["update-index", "-z", "--index-info"], {
+        env,
+        input: entries,
+      });
+    }
+    return (await git.exec(["write-tree"], { env })).trim();
+  });
+}
+
+// A plain commit on the snapshot's base holding everything it saved, so the
+// state can live on a branch
+export async function commitSnapshot(
+  git: Git,
+  sha: string,
+  message: string
+): Promise<string> {
+  const base = await git.resolveRef(`${sha}^1`);
+  if (!base) {
+    throw new ValidationError(`${sha.substring(0, 8)} is not a snapshot`);
+  }
+
+  return commitTree(git, await snapshotTree(git, sha), [base], message);
+}
+
+async function listUntracked(
+  git: Git,
+  includeIgnored = false
+): Promise<string[]> {
+  const args = ["ls-files", "--others", "--exclude-standard", "-z"];
+  const output = await git.exec(args);
+  const files = output.split("\0").filter((file) => file !== "");
+
+  if (includeIgnored) {
+    const ignored = await git.exec([
+      "ls-files",
+      "--others",
+      "--ignored",
+      "--exclude-standard",
+      "-z",
+    ]);
+    files.push(...ignored.split("\0").filter((file) => file !== ""));
+  }
+
+  return files;
+}
+
+async function commitTree(
+  git: Git,
+  tree: string,
+  parents: string[],
+  message: string
+): Promise<string> {
+  const args = ["commit-tree", tree];
+  for (const parent of parents) {
+    args.push("-p", parent);
+  }
+  args.push("-m", message);
+  return (await git.exec(args)).trim();
+}
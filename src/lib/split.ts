@@ -0,0 +1,268 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Git } from "./git.js";
+import { ExternalToolError, ValidationError } from "../types.js";
+
+export interface SplitCommitSpec {
+  message: string;
+  // Paths committed with their whole staged content
+  files: string[];
+  // Individual staged hunks of modified files (hunk-level split)
+  hunks?: StagedHunk[];
+}
+
+// One hunk of the staged diff (HEAD to index) of a modified text file
+export interface StagedHunk {
+  file: string;
+  header: string;
+  // The enclosing function or class git shows after the header, if any
+  context: string;
+  oldStart: number;
+  oldCount: number;
+  // New lines, with their line endings
+  added: string[];
+  // The hunk's diff lines, for previews
+  lines: string[];
+}
+
+export interface StagedChanges {
+  hunks: StagedHunk[];
+  // Staged paths that can only move as a whole: added, deleted, binary or
+  // mode-changed files
+  files: string[];
+}
+
+export interface SplitCommit extends SplitCommitSpec {
+  sha: string;
+}
+
+const NULL_SHA = "0000000000000000000000000000000000000000";
+
+// Build one commit per spec, each on top of the previous one, taking the
+// files' staged content from `indexTree`. Everything happens in a scratch
+// index: the real index, working tree and refs are not touched, so stopping
+// at any point leaves only unreachable objects behind. The pre-commit and
+// commit-msg hooks run as they would for 'git commit'. Specs whose files do
+// not change anything are skipped.
+export async function buildSplitCommits(
+  repo: Git,
+  parent: string | null,
+  indexTree: string,
+  specs: SplitCommitSpec[]
+): Promise<SplitCommit[]> {
+  const git = await repo.atTopLevel();
+  const messageFile = path.join(await git.getGitDir(), "OOPS_SPLIT_MSG");
+  const commits: SplitCommit[] = [];
+
+  try {
+    return await git.withTempIndex(async (env) => {
+      if (parent) {
+        await git.exec(["read-tree", parent], { env });
+      }
+      let tip = parent;
+      const applied = new Map<string, StagedHunk[]>();
+
+      for (const spec of specs) {
+        if (spec.files.length > 0) {
+          await git.exec(["update-index", "-z", "--index-info"], {
+            env,
+            input: await stagedEntries(git, indexTree, spec.files),
+          });
+        }
+
+        // Each commit carries the hunks of all earlier commits too, so
+        // rebuild a touched file from its HEAD version every time
+        const touched = new Set<string>();
+        for (const hunk of spec.hunks ?? []) {
+          applied.set(hunk.file, [...(applied.get(hunk.file) ?? []), hunk]);
+          touched.add(hunk.file);
+        }
+        for (const file of touched) {
+          await stageHunks(
+            git,
+            env,
+            parent,
+            indexTree,
+            file,
+            applied.get(file)!
+          );
+        }
+
+        const tree = (await git.exec(["write-tree"], { env })).trim();
+        if (tip && tree === (await git.resolveRef(`${tip}^{tree}`))) {
+          continue;
+        }
+
+        await runHook(git, env, spec, "pre-commit");
+        await fs.writeFile(messageFile, spec.message + "\n");
+        await runHook(git, env, spec, "commit-msg", messageFile);
+        const message = (
+          await git.exec(["stripspace", "--strip-comments"], {
+            input: await fs.readFile(messageFile, "utf8"),
+          })
+        ).trim();
+        if (message === "") {
+          throw new ValidationError(
+            `The commit-msg hook left an empty message for "${spec.message}"`
+          );
+        }
+
+        const sha = (
+          await git.exec(["commit-tree", tree, ...(tip ? ["-p", tip] : [])], {
+            env,
+            input: message + "\n",
+          })
+        ).trim();
+        commits.push({ ...spec, message, sha });
+        tip = sha;
+      }
+
+      return commits;
+    });
+  } finally {
+    await fs.rm(messageFile, { force: true });
+  }
+}
+
+async function runHook(
+  git: Git,
+  env: Record<string, string>,
+  spec: SplitCommitSpec,
+  hook: string,
+  ...args: string[]
+): Promise<void> {
+  const exitCode = await git.runHook(hook, args, { env });
+  if (exitCode !== null && exitCode !== 0) {
+    throw new ExternalToolError(
+      `The ${hook} hook rejected "${spec.message}"; nothing was committed`
+    );
+  }
+}
+
+// Every hunk of the staged diff, plus the paths that cannot be split
+export async function listStagedHunks(repo: Git): Promise<StagedChanges> {
+  const git = await repo.atTopLevel();
+  const changes: StagedChanges = { hunks: [], files: [] };
+
+  for (const file of await git.getStagedFiles()) {
+    const diff = await git.exec([
+      "diff",
+      "--cached",
+      "--unified=0",
+      "--no-renames",
+      "--no-color",
+      "--no-ext-diff",
+      "--",
+      file,
+    ]);
+
+    const hunks = parseHunks(file, diff);
+    if (
+      hunks.length === 0 ||
+      /^(new file|deleted file|old) mode |^Binary files /m.test(diff)
+    ) {
+      changes.files.push(file);
+    } else {
+      changes.hunks.push(...hunks);
+    }
+  }
+
+  return changes;
+}
+
+function parseHunks(file: string, diff: string): StagedHunk[] {
+  const hunks: StagedHunk[] = [];
+  let current: StagedHunk | null = null;
+
+  for (const line of diff.split("\n")) {
+    const header = line.match(
+      /^(@@ -(\d+)(?:,(\d+))? \+\d+(?:,\d+)? @@) ?(.*)$/
+    );
+    if (header) {
+      current = {
+        file,
+        header: header[1],
+        context: header[4],
+        oldStart: parseInt(header[2], 10),
+        oldCount: header[3] === undefined ? 1 : parseInt(header[3], 10),
+        added: [],
+        lines: [],
+      };
+      hunks.push(current);
+    } else if (current && /^[-+\\]/.test(line)) {
+      current.lines.push(line);
+      if (line.startsWith("+")) {
+        current.added.push(line.slice(1) + "\n");
+      } else if (
+        line.startsWith("\\") &&
+        current.lines[current.lines.length - 2]?.startsWith("+")
+      ) {
+        // "\ No newline at end of file" after an added line
+        const last = current.added.length - 1;
+        current.added[last] = current.added[last].slice(0, -1);
+      }
+    }
+  }
+
+  return hunks;
+}
+
+// Stage `file` in the scratch index as its HEAD version plus the given hunks.
+// Without a base commit (an unborn branch) the file starts out empty.
+async function stageHunks(
+  git: Git,
+  env: Record<string, string>,
+  base: string | null,
+  indexTree: string,
+  file: string,
+  hunks: StagedHunk[]
+): Promise<void> {
+  const original = base
+    ? await git.exec(["cat-file", "blob", `${base}:${file}`], { raw: true })
+    : "";
+  const lines = original.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+
+  // Bottom-up, so the line numbers of the remaining hunks stay valid
+  for (const hunk of [...hunks].sort((a, b) => b.oldStart - a.oldStart)) {
+    const start = hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    lines.splice(start, hunk.oldCount, ...hunk.added);
+  }
+
+  const sha = (
+    await git.exec(["hash-object", "-w", "--stdin"], { input: lines.join("") })
+  ).trim();
+  const mode = (
+    await git.exec(["ls-tree", "--full-tree", indexTree, "--", file])
+  ).split(" ")[0];
+  await git.exec(["update-index", "--cacheinfo", `${mode},${sha},${file}`], {
+    env,
+  });
+}
+
+// --index-info input giving each file its content in indexTree, or removing
+// it when the staged change is a deletion
+async function stagedEntries(
+  git: Git,
+  indexTree: string,
+  files: string[]
+): Promise<string> {
+  const listed = await git.exec([
+    "ls-tree",
+    "-r",
+    "-z",
+    "--full-tree",
+    indexTree,
+    "--",
+    ...files,
+  ]);
+  const entries = listed.split("\0").filter((entry) => entry !== "");
+  const present = new Set(entries.map((entry) => entry.split("\t")[1]));
+
+  for (const file of files) {
+    if (!present.has(file)) {
+      entries.push(`0 ${NULL_SHA}\t${file}`);
+    }
+  }
+
+  return entries.map((entry) => entry + "\0").join("");
+}
@@ -0,0 +1,421 @@
+import { Git } from "./git.js";
+import { JournalOperation } from "./journal.js";
+import {
+  clearResumeState,
+  loadResumeState,
+  saveResumeState,
+} from "./resume.js";
+import { Logger, pluralize, select, shortSha } from "../utils.js";
+import { ConflictError, ValidationError } from "../types.js";
+
+const STATE_NAME = "yank";
+
+export type PullStrategy = "rebase" | "merge" | "ff-only" | "rebase-merges";
+
+export const PULL_STRATEGIES: Record<PullStrategy, string> = {
+  rebase: "replay local commits on top of upstream",
+  merge: "merge upstream in, with a merge commit if needed",
+  "ff-only": "only fast-forward; fail if the branch diverged",
+  "rebase-merges": "rebase, keeping local merge commits",
+};
+
+export function parsePullStrategy(value: string): PullStrategy {
+  if (!Object.keys(PULL_STRATEGIES).includes(value)) {
+    throw new ValidationError(
+      `Unknown pull strategy '${value}'. Use one of: ${Object.keys(
+        PULL_STRATEGIES
+      ).join(", ")}`
+    );
+  }
+  return value as PullStrategy;
+}
+
+// Flags for git pull
+export function pullFlags(strategy: PullStrategy): string[] {
+  switch (strategy) {
+    case "rebase":
+      return ["--rebase"];
+    case "rebase-merges":
+      return ["--rebase=merges"];
+    case "merge":
+      return ["--no-rebase", "--no-edit"];
+    case "ff-only":
+      return ["--ff-only"];
+  }
+}
+
+// The command that integrates an upstream that is already fetched
+export function integrateArgs(
+  strategy: PullStrategy,
+  upstream: string
+): string[] {
+  switch (strategy) {
+    case "rebase":
+      return ["rebase", upstream];
+    case "rebase-merges":
+      return ["rebase", "--rebase-merges", upstream];
+    case "merge":
+      return ["merge", "--no-edit", upstream];
+    case "ff-only":
+      return ["merge", "--ff-only", upstream];
+  }
+}
+
+// What a yank needs to finish or undo a pull that stopped on a conflict
+export interface YankState {
+  branch: string;
+  // HEAD before the pull
+  head: string;
+  upstream: string;
+  strategy: PullStrategy;
+  // The stash holding the local work, if there was any
+  stash: string | null;
+  // The stash list right after stashing, to notice if anything changed it
+  stashList: string[];
+  // "pull" until the pull is done; "restore-stash" while the stash's
+  // conflicts with upstream are being resolved
+  phase: "pull" | "restore-stash";
+}
+
+export async function saveYankState(git: Git, state: YankState) {
+  await saveResumeState(git, STATE_NAME, state);
+}
+
+export async function clearYankState(git: Git) {
+  await clearResumeState(git, STATE_NAME);
+}
+
+export async function yankInProgress(git: Git): Promise<boolean> {
+  return (await loadResumeState<YankState>(git, STATE_NAME)) !== null;
+}
+
+export function pullConflictError(
+  state: YankState,
+  cause: Error
+): ConflictError {
+  const merging = state.strategy === "merge";
+  return new ConflictError(
+    [
+      merging
+        ? `Merging ${state.upstream} into '${state.branch}' stopped on a conflict.`
+        : `Rebasing '${state.branch}' onto ${state.upstream} stopped on a conflict.`,
+      "  • Resolve the conflicts and stage them: git add <files>",
+      "  • Then carry on: git oops yank --continue",
+      `  • Or go back to ${shortSha(state.head)}: git oops yank --abort`,
+      ...(state.stash ? ["  • Your local work stays stashed until then"] : []),
+    ].join("\n"),
+    cause
+  );
+}
+
+// Finish the rebase or merge after the user resolved it; the stash is left
+// for the caller to restore, or to finish restoring
+export async function continueYank(
+  git: Git,
+  logger: Logger
+): Promise<YankState> {
+  const state = await requireState(git);
+  if (state.phase === "restore-stash") return state;
+
+  if (await git.rebaseInProgress()) {
+    logger.info("🔄 Continuing the rebase...");
+    try {
+      await git.exec(["rebase", "--continue"], {
+        env: { GIT_EDITOR: "true" },
+      });
+    } catch (error: any) {
+      if (await git.rebaseInProgress()) {
+        throw pullConflictError(state, error);
+      }
+      throw error;
+    }
+  } else if (await git.mergeInProgress()) {
+    if ((await git.getConflictedFiles()).length > 0) {
+      throw pullConflictError(
+        state,
+        new Error("Some files still have unresolved conflicts")
+      );
+    }
+    logger.info("🔀 Concluding the merge...");
+    await git.exec(["commit", "--no-edit"]);
+  }
+
+  await clearYankState(git);
+  return state;
+}
+
+// Put the branch back where it was before the pull and reapply the stash
+// with its index, exactly as it was
+export async function abortYank(
+  git: Git,
+  logger: Logger
+): Promise<{ state: YankState; restored: boolean }> {
+  const state = await requireState(git);
+
+  if (await git.rebaseInProgress()) {
+    await git.exec(["rebase", "--abort"]);
+  } else if (await git.mergeInProgress()) {
+    await git.exec(["merge", "--abort"]);
+  } else if (state.phase === "restore-stash") {
+    // Clear the half-applied stash; it is still on the list
+    await git.resetHard("HEAD");
+  }
+
+  logger.info(`↩️  Restoring '${state.branch}' to ${shortSha(state.head)}...`);
+  await git.switchBranch(state.branch);
+  await git.resetHard(state.head);
+
+  await clearYankState(git);
+  const restored = await restoreStash(git, logger, state, { index: true });
+  return { state, restored };
+}
+
+// Pop the stash yank made, by its SHA. If the stash list is not what yank
+// left it as, something else stashed or popped in the meantime: rather than
+// guess, leave the stash alone and say how to restore it. A pop that
+// conflicts keeps the stash and moves on to resolving the conflicts; any
+// other failure only explains, as the pull still stands.
+export async function restoreStash(
+  git: Git,
+  logger: Logger,
+  state: YankState,
+  options: { index?: boolean; interactive?: boolean } = {}
+): Promise<boolean> {
+  if (!state.stash) return true;
+
+  const stashList = await git.listStashes();
+  if (stashList.join() !== state.stashList.join()) {
+    logger.error(
+      `❌ The stash list changed while yank was running, so your changes were not restored`
+    );
+    logger.info(`\n🔧 Your changes are in stash ${shortSha(state.stash)}:`);
+    logger.info(`   • Look at it: git stash show -p ${state.stash}`);
+    logger.info(`   • Restore it: git stash apply --index ${state.stash}`);
+    if (stashList.includes(state.stash)) {
+      logger.info(
+        `   • Then drop it: git stash drop stash@{${stashList.indexOf(state.stash)}}`
+      );
+    }
+    logger.warn("⚠️  Stash restoration skipped");
+    return false;
+  }
+
+  logger.info(`📤 Restoring stashed changes...`);
+  try {
+    await git.stashPop(state.stash, options);
+    logger.success("✅ Stashed changes restored successfully");
+    return true;
+  } catch (error: any) {
+    if ((await git.getConflictedFiles()).length > 0) {
+      state.phase = "restore-stash";
+      return resolveStashConflicts(git, logger, state, options);
+    }
+    logger.error(`❌ Failed to restore stashed changes: ${error}`);
+    logger.info("\n🔧 To restore your changes manually:");
+    logger.info(`   • Try again: git stash apply ${state.stash}`);
+    logger.info(`   • Or view stash: git stash show -p ${state.stash}`);
+
+    logger.warn("⚠️  Pull succeeded but stash restoration failed");
+    return false;
+  }
+}
+
+// Walk through the files where the stash conflicts with upstream, offering
+// to take either side or open the merge tool. The stash is only dropped, and
+// so counts as restored, once nothing is left conflicted; until then the
+// state is kept for yank --continue and --abort.
+export async function resolveStashConflicts(
+  git: Git,
+  logger: Logger,
+  state: YankState,
+  options: { interactive?: boolean } = {}
+): Promise<boolean> {
+  const stash = state.stash!;
+  const conflicted = await git.getConflictedFiles();
+
+  if (conflicted.length > 0) {
+    logger.warn(
+      `Your stashed changes conflict with ${state.upstream} in ${pluralize(
+        conflicted.length,
+        "file"
+      )}`
+    );
+  }
+
+  if (options.interactive) {
+    for (const file of conflicted) {
+      const action = await select<StashResolution | "later">(
+        `How should ${file} be resolved?`,
+        [
+          { name: "Take mine (the stashed version)", value: "mine" },
+          { name: `Take upstream (${state.upstream})`, value: "upstream" },
+          { name: "Open the merge tool", value: "merge" },
+          { name: "Leave it for later", value: "later" },
+        ]
+      );
+      if (action === "later") continue;
+
+      try {
+        await resolveFile(git, file, action);
+      } catch (error) {
+        logger.warn(`Could not resolve ${file}: ${error}`);
+      }
+    }
+  }
+
+  const remaining = await git.getConflictedFiles();
+  if (remaining.length > 0) {
+    await saveYankState(git, state);
+    logger.info(
+      `\n🔧 Still conflicted - stash ${shortSha(stash)} is kept until these are resolved:`
+    );
+    for (const file of remaining) {
+      logger.info(`  • ${file}`);
+      logger.dim(
+        `    take mine:      git checkout --theirs -- ${file} && git reset -q -- ${file}`
+      );
+      logger.dim(
+        `    take upstream:  git checkout --ours -- ${file} && git reset -q -- ${file}`
+      );
+      logger.dim(`    open merge:     git mergetool -- ${file}`);
+    }
+    logger.info("\n   Or edit the file and mark it resolved: git add <file>");
+    logger.info("   Then finish with: git oops yank --continue");
+    logger.info(
+      `   Or go back to ${shortSha(state.head)}: git oops yank --abort`
+    );
+    logger.warn("⚠️  Pull succeeded but the stash is not fully restored yet");
+    return false;
+  }
+
+  await git.stashDrop(stash);
+  await clearYankState(git);
+  logger.success("✅ Stashed changes restored successfully");
+  return true;
+}
+
+type StashResolution = "mine" | "upstream" | "merge";
+
+// In a stash pop, "ours" is the updated branch and "theirs" the stash. The
+// resolved file is left unstaged, as a clean pop would leave it.
+async function resolveFile(
+  git: Git,
+  file: string,
+  resolution: StashResolution
+): Promise<void> {
+  if (resolution === "merge") {
+    await git.exec(["mergetool", "--", file], { interactive: true });
+  } else {
+    await git.exec([
+      "checkout",
+      resolution === "mine" ? "--theirs" : "--ours",
+      "--",
+      file,
+    ]);
+  }
+  await git.exec(["reset", "-q", "--", file]);
+}
+
+async function requireState(git: Git): Promise<YankState> {
+  const state = await loadResumeState<YankState>(git, STATE_NAME);
+  if (!state) {
+    throw new ValidationError("No yank operation in progress");
+  }
+  return state;
+}
+
+// What yank --all did with one of the other local branches
+export interface BranchUpdate {
+  branch: string;
+  upstream: string | null;
+  result:
+    | "fast-forwarded"
+    | "up-to-date"
+    | "ahead"
+    | "diverged"
+    | "gone"
+    | "no-upstream"
+    | "checked-out";
+  detail?: string;
+}
+
+// Fast-forward every local branch other than `current` whose upstream is
+// strictly ahead, by moving the ref: nothing is checked out. Branches that
+// diverged, lost their upstream or are checked out in another worktree are
+// only reported. Expects the remotes to be fetched already.
+export async function fastForwardBranches(
+  git: Git,
+  operation: JournalOperation,
+  current: string
+): Promise<BranchUpdate[]> {
+  const output = await git.exec([
+    "for-each-ref",
+    "--format=%(refname:short)%09%(upstream:short)%09%(worktreepath)",
+    "refs/heads",
+  ]);
+
+  const updates: BranchUpdate[] = [];
+  for (const line of output.split("\n").filter(Boolean)) {
+    const [branch, upstreamName, worktree] = line.split("\t");
+    if (branch === current) continue;
+    const upstream = upstreamName || null;
+
+    if (!upstream) {
+      updates.push({ branch, upstream, result: "no-upstream" });
+      continue;
+    }
+    const target = await git.resolveRef(upstream);
+    if (!target) {
+      updates.push({ branch, upstream, result: "gone" });
+      continue;
+    }
+
+    const [ahead, behind] = (
+      await git.exec([
+        "rev-list",
+        "--left-right",
+        "--count",
+        `${branch}...${upstream}`,
+      ])
+    )
+      .trim()
+      .split(/\s+/)
+      .map(Number);
+
+    if (behind === 0) {
+      updates.push({
+        branch,
+        upstream,
+        result: ahead === 0 ? "up-to-date" : "ahead",
+        detail: ahead === 0 ? undefined : pluralize(ahead, "commit"),
+      });
+    } else if (ahead > 0) {
+      updates.push({
+        branch,
+        upstream,
+        result: "diverged",
+        detail: `${ahead} ahead, ${behind} behind`,
+      });
+    } else if (worktree) {
+      updates.push({
+        branch,
+        upstream,
+        result: "checked-out",
+        detail: worktree,
+      });
+    } else {
+      const ref = `refs/heads/${branch}`;
+      const from = (await git.resolveRef(ref))!;
+      await operation.track(ref);
+      await git.updateRef(ref, target, from);
+      updates.push({
+        branch,
+        upstream,
+        result: "fast-forwarded",
+        detail: `${shortSha(from)}..${shortSha(target)}, ${pluralize(behind, "commit")}`,
+      });
+    }
+  }
+
+  return updates;
+}
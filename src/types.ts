@@ -23,22 +23,57 @@ export interface GitStatus {
 }
 
 export interface FileGroup {
-  directory: string;
+  name: string;
   files: string[];
+  // Why these files belong together, e.g. the CODEOWNERS rule that matched
+  reason?: string;
 }
 
 export interface SafetyTag {
   name: string;
   sha: string;
   timestamp: string;
+  operation: string;
+  message: string;
+}
+
+// Operation journal types
+export interface RepoState {
+  branch: string | null;
+  head: string | null;
+  index: string | null;
+}
+
+export interface RefChange {
+  ref: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface JournalEntry {
+  id: number;
+  command: string;
+  args: string[];
+  timestamp: string;
+  status: "completed" | "failed";
+  before: RepoState;
+  after: RepoState;
+  refs: RefChange[];
+  // Commits the operation created (not reachable before, nor from remotes)
+  commits: string[];
+  safetyTags: string[];
+  stashes: string[];
+  error?: string;
 }
 
 // Error types
+// errorCode is part of the --json output; keep existing values stable
 export class GitOopsError extends Error {
   constructor(
     message: string,
     public readonly code: number = 1,
-    public readonly cause?: Error
+    public readonly cause?: Error,
+    public readonly errorCode: string = "GIT_OOPS_ERROR"
   ) {
     super(message);
     this.name = "GitOopsError";
@@ -47,14 +82,63 @@ export class GitOopsError extends Error {
 
 export class ValidationError extends GitOopsError {
   constructor(message: string) {
-    super(message, 1);
+    super(message, 1, undefined, "VALIDATION_ERROR");
     this.name = "ValidationError";
   }
 }
 
 export class ExternalToolError extends GitOopsError {
   constructor(message: string, cause?: Error) {
-    super(message, 2, cause);
+    super(message, 2, cause, "EXTERNAL_TOOL_ERROR");
     this.name = "ExternalToolError";
   }
 }
+
+// Raised instead of prompting when there is no one to answer (--json)
+export class ConfirmationRequiredError extends GitOopsError {
+  constructor(question: string) {
+    super(
+      `Confirmation required: ${question} Pass --yes to proceed`,
+      1,
+      undefined,
+      "CONFIRMATION_REQUIRED"
+    );
+    this.name = "ConfirmationRequiredError";
+  }
+}
+
+// Git stopped on conflicts (rebase, cherry-pick, stash apply...). The message
+// says how to continue or abort; nothing has been rolled back.
+export class ConflictError extends GitOopsError {
+  constructor(message: string, cause?: Error) {
+    super(message, 1, cause, "CONFLICT");
+    this.name = "ConflictError";
+  }
+}
+
+// A planned step failed; whatever the earlier steps did has been undone,
+// except for the compensations listed in rollbackFailures
+export class PlanExecutionError extends GitOopsError {
+  constructor(
+    public readonly step: number,
+    public readonly description: string,
+    cause: unknown,
+    public readonly rollbackFailures: string[] = []
+  ) {
+    super(
+      `Step ${step} (${description}) failed: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }\n${
+        rollbackFailures.length === 0
+          ? "All earlier steps were rolled back."
+          : `Rollback incomplete, could not ${rollbackFailures.join("; ")}. See: git oops history`
+      }`,
+      2,
+      cause instanceof Error ? cause : undefined,
+      rollbackFailures.length === 0
+        ? "PLAN_ROLLED_BACK"
+        : "PLAN_ROLLBACK_FAILED"
+    );
+    this.name = "PlanExecutionError";
+  }
+}
@@ -1,8 +1,14 @@
 import chalk from "chalk";
 import inquirer from "inquirer";
-import { BaseOptions } from "./types.js";
+import { isJsonMode, reportPlan, reportWarning } from "./lib/report.js";
+import {
+  BaseOptions,
+  ConfirmationRequiredError,
+  ValidationError,
+} from "./types.js";
 
-// Simple logging
+// Simple logging. In --json mode prose is suppressed: warnings and dry-run
+// plans are collected for the result object instead.
 export class Logger {
   public options: BaseOptions;
 
@@ -11,6 +17,7 @@ export class Logger {
   }
 
   info(message: string) {
+    if (isJsonMode()) return;
     if (this.options.noColor) {
       console.log(message);
     } else {
@@ -19,6 +26,7 @@ export class Logger {
   }
 
   success(message: string) {
+    if (isJsonMode()) return;
     if (this.options.noColor) {
       console.log(`✓ ${message}`);
     } else {
@@ -27,6 +35,10 @@ export class Logger {
   }
 
   warn(message: string) {
+    if (isJsonMode()) {
+      reportWarning(message);
+      return;
+    }
     if (this.options.noColor) {
       console.warn(`⚠ ${message}`);
     } else {
@@ -35,6 +47,7 @@ export class Logger {
   }
 
   error(message: string) {
+    if (isJsonMode()) return;
     if (this.options.noColor) {
       console.error(`✗ ${message}`);
     } else {
@@ -44,7 +57,10 @@ export class Logger {
 
   verbose(message: string) {
     if (this.options.verbose) {
-      if (this.options.noColor) {
+      if (isJsonMode()) {
+        // stdout is reserved for the result object
+        console.error(`[VERBOSE] ${message}`);
+      } else if (this.options.noColor) {
         console.log(`[VERBOSE] ${message}`);
       } else {
         console.log(chalk.gray(`[VERBOSE] ${message}`));
@@ -53,12 +69,20 @@ export class Logger {
   }
 
   dim(message: string) {
+    if (isJsonMode()) return;
     if (this.options.noColor) {
       console.log(message);
     } else {
       console.log(chalk.dim(message));
     }
   }
+
+  // Dry-run output: the numbered steps a command would perform
+  plan(steps: string[], heading = "📋 Dry run - would perform these actions:") {
+    reportPlan(steps);
+    this.info(`\n${heading}`);
+    steps.forEach((step, index) => this.info(`${index + 1}. ${step}`));
+  }
 }
 
 // Prompt utilities
@@ -70,6 +94,9 @@ export async function confirm(
   if (options.yes) {
     return true;
   }
+  if (isJsonMode()) {
+    throw new ConfirmationRequiredError(message);
+  }
 
   const { confirmed } = await inquirer.prompt([
     {
@@ -83,14 +110,78 @@ export async function confirm(
   return confirmed;
 }
 
+export async function select<T>(
+  message: string,
+  choices: Array<{ name: string; value: T }>,
+  defaultValue?: T
+): Promise<T> {
+  if (isJsonMode()) {
+    throw new ValidationError(`Cannot ask "${message}" in --json mode`);
+  }
+
+  const { selected } = await inquirer.prompt([
+    {
+      type: "list",
+      name: "selected",
+      message,
+      choices,
+      default: choices.findIndex((choice) => choice.value === defaultValue),
+    },
+  ]);
+
+  return selected;
+}
+
+export async function checkbox<T>(
+  message: string,
+  choices: Array<{ name: string; value: T; checked?: boolean }>
+): Promise<T[]> {
+  if (isJsonMode()) {
+    throw new ValidationError(`Cannot ask "${message}" in --json mode`);
+  }
+
+  const { selected } = await inquirer.prompt([
+    {
+      type: "checkbox",
+      name: "selected",
+      message,
+      choices,
+    },
+  ]);
+
+  return selected;
+}
+
+export async function input(
+  message: string,
+  defaultValue?: string,
+  emptyMessage = "Enter a name"
+): Promise<string> {
+  if (isJsonMode()) {
+    throw new ValidationError(`Cannot ask "${message}" in --json mode`);
+  }
+
+  const { answer } = await inquirer.prompt([
+    {
+      type: "input",
+      name: "answer",
+      message,
+      default: defaultValue,
+      validate: (value: string) => value.trim() !== "" || emptyMessage,
+    },
+  ]);
+
+  return answer.trim();
+}
+
 // Utility functions
-export function sanitizeBranchName(input: string): string {
+export function sanitizeBranchName(input: string, maxLength = 50): string {
   return input
     .toLowerCase()
     .replace(/[^a-z0-9\-]/g, "-")
     .replace(/^-+|-+$/g, "")
     .replace(/-+/g, "-")
-    .slice(0, 50);
+    .slice(0, maxLength);
 }
 
 export function truncateText(text: string, maxLength: number): string {
@@ -130,19 +221,47 @@ export function formatTimestamp(date = new Date()): string {
     .replace("T", "-");
 }
 
+export function formatAge(timestamp: string, now = Date.now()): string {
+  const seconds = Math.max(0, Math.floor((now - Date.parse(timestamp)) / 1000));
+  const units: Array<[number, string]> = [
+    [86400, "day"],
+    [3600, "hour"],
+    [60, "minute"],
+  ];
+
+  for (const [size, unit] of units) {
+    if (seconds >= size) {
+      return `${pluralize(Math.floor(seconds / size), unit)} ago`;
+    }
+  }
+  return "just now";
+}
+
+export function shortSha(sha: string | null): string {
+  return sha ? sha.substring(0, 8) : "(none)";
+}
+
 export function isValidSha(sha: string): boolean {
   return /^[a-f0-9]{7,40}$/i.test(sha);
 }
 
-export function isProtectedBranch(branchName: string): boolean {
-  const protectedPatterns = [
-    /^main$/,
-    /^master$/,
-    /^production$/,
-    /^prod$/,
-    /^release\/.+/,
-    /^hotfix\/.+/,
-  ];
+export function isProtectedBranch(
+  branchName: string,
+  patterns: string[]
+): boolean {
+  return matchesBranchPattern(branchName, patterns);
+}
 
-  return protectedPatterns.some((pattern) => pattern.test(branchName));
+// Patterns are branch names where * matches anything, e.g. "release/*"
+export function matchesBranchPattern(
+  branchName: string,
+  patterns: string[]
+): boolean {
+  return patterns.some((pattern) => {
+    const regex = pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".+");
+    return new RegExp(`^${regex}$`).test(branchName);
+  });
 }
@@ -6,7 +6,7 @@
  */
 
 import { execSync, spawn } from "child_process";
-import { existsSync, writeFileSync, readFileSync, mkdirSync } from "fs";
+import { existsSync, writeFileSync, readFileSync, mkdirSync, rmSync } from "fs";
 import { join } from "path";
 
 class GitOopsTestSuite {
@@ -48,6 +48,7 @@ class GitOopsTestSuite {
         return {
           success: false,
           output: error.stderr?.trim() || error.message,
+          stdout: error.stdout?.trim(),
         };
       }
       throw error;
@@ -159,6 +160,236 @@ class GitOopsTestSuite {
       const result = await this.gitOops("wrong-branch --yes");
       // Should still work, just use local main as reference
     });
+
+    await this.test("wrong-branch: picks the closest base branch", async () => {
+      await this.exec("git checkout main");
+      await this.exec(`git checkout -b develop`);
+      await this.createTestFiles({ "develop.txt": "develop" });
+      await this.exec("git add develop.txt");
+      await this.exec('git commit -m "Develop commit"');
+      await this.exec(`git checkout -b base-test-${this.testId}`);
+      await this.createTestFiles({ "base-test.txt": "feature" });
+      await this.exec("git add base-test.txt");
+      await this.exec('git commit -m "Base test commit"');
+
+      try {
+        const result = await this.gitOops(
+          "wrong-branch --dry-run --verbose --yes 2>&1"
+        );
+        if (!result.output.includes("using 'develop' as reference")) {
+          throw new Error(`develop should be the base: ${result.output}`);
+        }
+        if (!result.output.includes("Picked develop")) {
+          throw new Error("--verbose should explain the choice");
+        }
+      } finally {
+        await this.exec("git checkout main");
+        await this.exec(`git branch -D develop base-test-${this.testId}`);
+      }
+    });
+
+    await this.test(
+      "wrong-branch: uncommitted changes move along",
+      async () => {
+        await this.exec("git checkout main");
+        await this.exec(`git checkout -b carry-test-${this.testId}`);
+        await this.createTestFiles({ "carry.txt": "committed\n" });
+        await this.exec("git add carry.txt");
+        await this.exec('git commit -m "Carry test commit"');
+        await this.createTestFiles({
+          "carry.txt": "committed\nunstaged\n",
+          "carry-staged.txt": "staged\n",
+        });
+        await this.exec("git add carry-staged.txt");
+
+        await this.gitOops(`wrong-branch carry-moved-${this.testId} --yes`);
+
+        const branch = await this.exec("git branch --show-current");
+        if (branch.output !== `carry-moved-${this.testId}`) {
+          throw new Error(`Expected the new branch, got ${branch.output}`);
+        }
+        const status = await this.exec(
+          "git status --porcelain carry.txt carry-staged.txt"
+        );
+        await this.exec("git reset --hard");
+        if (status.output !== "A  carry-staged.txt\n M carry.txt") {
+          throw new Error(`Local changes should move along: ${status.output}`);
+        }
+      }
+    );
+
+    await this.test(
+      "wrong-branch: carried changes stay on the stash list until restored",
+      async () => {
+        await this.exec("git checkout main");
+        await this.exec(`git checkout -b stash-target-${this.testId}`);
+        await this.createTestFiles({ "stash-carry.txt": "target\n" });
+        await this.exec("git add stash-carry.txt");
+        await this.exec('git commit -m "Target stash-carry.txt"');
+
+        await this.exec("git checkout main");
+        await this.exec(`git checkout -b stash-source-${this.testId}`);
+        await this.createTestFiles({ "stash-carry.txt": "source\n" });
+        await this.exec("git add stash-carry.txt");
+        await this.exec('git commit -m "Source stash-carry.txt"');
+        const readme = readFileSync("README.md", "utf8");
+        await this.createTestFiles({ "README.md": `${readme}carried\n` });
+
+        const entry = `wrong-branch: uncommitted changes on stash-source-${this.testId}`;
+        await this.gitOops(
+          `wrong-branch --onto stash-target-${this.testId} --yes`,
+          true
+        );
+        try {
+          const during = await this.exec("git stash list --format=%gs");
+          if (!during.output.includes(entry)) {
+            throw new Error("The changes should be on the stash list mid-move");
+          }
+        } finally {
+          await this.gitOops("wrong-branch --abort");
+        }
+        const status = await this.exec("git status --porcelain README.md");
+        const after = await this.exec("git stash list --format=%gs");
+        await this.exec("git reset --hard");
+        if (status.output !== "M README.md") {
+          throw new Error(`The changes should be back: ${status.output}`);
+        }
+        if (after.output.includes(entry)) {
+          throw new Error("The stash entry should be dropped once restored");
+        }
+      }
+    );
+
+    await this.test(
+      "wrong-branch: --last moves only the newest commits",
+      async () => {
+        await this.exec("git checkout main");
+        await this.exec(`git checkout -b last-test-${this.testId}`);
+        for (const n of [1, 2, 3]) {
+          await this.createTestFiles({ [`last-${n}.txt`]: `content ${n}` });
+          await this.exec(`git add last-${n}.txt`);
+          await this.exec(`git commit -m "Last test commit ${n}"`);
+        }
+
+        await this.gitOops(
+          `wrong-branch --last 1 last-moved-${this.testId} --yes`
+        );
+
+        const moved = await this.exec("git log --format=%s main..HEAD");
+        if (moved.output !== "Last test commit 3") {
+          throw new Error(`Only the last commit should move: ${moved.output}`);
+        }
+        const kept = await this.exec(
+          `git log --format=%s main..last-test-${this.testId}`
+        );
+        if (kept.output !== "Last test commit 2\nLast test commit 1") {
+          throw new Error(`The other commits should stay: ${kept.output}`);
+        }
+        const tags = await this.exec("git tag -l 'oops/wrong-branch-*'");
+        if (!tags.output.includes(`last-test-${this.testId}`)) {
+          throw new Error("A safety tag should be created before the reset");
+        }
+      }
+    );
+
+    await this.test(
+      "wrong-branch: --pick takes revisions git resolves",
+      async () => {
+        await this.exec("git checkout main");
+        await this.exec(`git checkout -b pick-test-${this.testId}`);
+        for (const n of [1, 2, 3]) {
+          await this.createTestFiles({ [`pick-${n}.txt`]: `content ${n}` });
+          await this.exec(`git add pick-${n}.txt`);
+          await this.exec(`git commit -m "Pick test commit ${n}"`);
+        }
+
+        await this.gitOops(
+          `wrong-branch --pick HEAD~1 pick-moved-${this.testId} --yes`
+        );
+
+        const moved = await this.exec("git log --format=%s main..HEAD");
+        if (moved.output !== "Pick test commit 2") {
+          throw new Error(`Only HEAD~1 should move: ${moved.output}`);
+        }
+        const kept = await this.exec(
+          `git log --format=%s main..pick-test-${this.testId}`
+        );
+        if (kept.output !== "Pick test commit 3\nPick test commit 1") {
+          throw new Error(`The other commits should stay: ${kept.output}`);
+        }
+      }
+    );
+
+    await this.test(
+      "wrong-branch: --onto stops on conflicts, then --abort and --continue",
+      async () => {
+        await this.exec("git checkout main");
+        await this.exec(`git checkout -b onto-target-${this.testId}`);
+        await this.createTestFiles({ "onto.txt": "target\n" });
+        await this.exec("git add onto.txt");
+        await this.exec('git commit -m "Target onto.txt"');
+        const targetBefore = await this.exec("git rev-parse HEAD");
+
+        await this.exec("git checkout main");
+        await this.exec(`git checkout -b onto-source-${this.testId}`);
+        await this.createTestFiles({ "onto.txt": "source\n" });
+        await this.exec("git add onto.txt");
+        await this.exec('git commit -m "Source onto.txt"');
+        const sourceBefore = await this.exec("git rev-parse HEAD");
+
+        const onto = `wrong-branch --onto onto-target-${this.testId} --yes`;
+        await this.gitOops(onto, true);
+        await this.gitOops("wrong-branch --abort");
+
+        const branch = await this.exec("git branch --show-current");
+        const source = await this.exec("git rev-parse HEAD");
+        const target = await this.exec(
+          `git rev-parse onto-target-${this.testId}`
+        );
+        if (
+          branch.output !== `onto-source-${this.testId}` ||
+          source.output !== sourceBefore.output ||
+          target.output !== targetBefore.output
+        ) {
+          throw new Error("--abort should put both branches back");
+        }
+
+        await this.gitOops(onto, true);
+        await this.createTestFiles({ "onto.txt": "resolved\n" });
+        await this.exec("git add onto.txt");
+        await this.gitOops("wrong-branch --continue");
+
+        const log = await this.exec("git log --format=%s -2");
+        if (log.output !== "Source onto.txt\nTarget onto.txt") {
+          throw new Error(
+            `The commit should land on the target: ${log.output}`
+          );
+        }
+        const left = await this.exec(
+          `git log --format=%s main..onto-source-${this.testId}`
+        );
+        if (left.output !== "") {
+          throw new Error(`The source should be reset: ${left.output}`);
+        }
+
+        // The conflict stopped the cherry-pick onto the target, so the
+        // source was still untouched when --continue began
+        const entries = readFileSync(".git/oops/journal.jsonl", "utf8")
+          .trim()
+          .split("\n")
+          .map((line) => JSON.parse(line));
+        const sourceRef = entries[entries.length - 1].refs.find(
+          (change) => change.ref === `refs/heads/onto-source-${this.testId}`
+        );
+        if (
+          !sourceRef ||
+          sourceRef.before !== sourceBefore.output ||
+          sourceRef.after === sourceRef.before
+        ) {
+          throw new Error("--continue should journal the source branch move");
+        }
+      }
+    );
   }
 
   async testSplit() {
@@ -209,6 +440,289 @@ class GitOopsTestSuite {
       const result = await this.gitOops("split --yes");
       // Should handle mixed file types appropriately
     });
+
+    await this.test(
+      "split: failed step rolls back earlier commits",
+      async () => {
+        await this.exec(
+          'git add -A && git commit --allow-empty -m "Before split"'
+        );
+        const head = await this.exec("git rev-parse HEAD");
+
+        mkdirSync("api", { recursive: true });
+        mkdirSync("web", { recursive: true });
+        await this.createTestFiles({
+          "api/server.js": "server",
+          "web/page.js": "page",
+        });
+        await this.exec("git add .");
+
+        // Reject the second commit of the split. The hook is enabled through
+        // the environment so a user-level core.hooksPath cannot disable it
+        mkdirSync(".oops-hooks", { recursive: true });
+        writeFileSync(
+          ".oops-hooks/commit-msg",
+          '#!/bin/sh\ngrep -q "(web)" "$1" && exit 1\nexit 0\n',
+          { mode: 0o755 }
+        );
+        const savedEnv = { ...process.env };
+        Object.assign(process.env, {
+          GIT_CONFIG_COUNT: "1",
+          GIT_CONFIG_KEY_0: "core.hooksPath",
+          GIT_CONFIG_VALUE_0: join(process.cwd(), ".oops-hooks"),
+        });
+
+        try {
+          const result = await this.gitOops("split --yes", true);
+          if (result.success) {
+            throw new Error("Split should fail when a commit is rejected");
+          }
+
+          const after = await this.exec("git rev-parse HEAD");
+          if (after.output !== head.output) {
+            throw new Error("Commits from earlier steps should be rolled back");
+          }
+          const staged = await this.exec("git diff --cached --name-only");
+          if (
+            !staged.output.includes("api/server.js") ||
+            !staged.output.includes("web/page.js")
+          ) {
+            throw new Error("Index should be restored to its original state");
+          }
+        } finally {
+          process.env = savedEnv;
+          rmSync(".oops-hooks", { recursive: true, force: true });
+          await this.exec('git commit -m "After split"');
+        }
+      }
+    );
+
+    await this.test(
+      "split: runs executable hooks and skips the rest",
+      async () => {
+        mkdirSync("api", { recursive: true });
+        mkdirSync("web", { recursive: true });
+        await this.createTestFiles({
+          "api/hooked.js": "hooked",
+          "web/hooked.js": "hooked",
+        });
+        await this.exec("git add .");
+
+        mkdirSync(".oops-hooks", { recursive: true });
+        writeFileSync(
+          ".oops-hooks/pre-commit",
+          '#!/bin/sh\necho ran >> "$(git rev-parse --git-dir)/oops-hook-ran"\n',
+          { mode: 0o755 }
+        );
+        // Not executable, so git would not run it either
+        writeFileSync(".oops-hooks/commit-msg", "#!/bin/sh\nexit 1\n", {
+          mode: 0o644,
+        });
+        const savedEnv = { ...process.env };
+        Object.assign(process.env, {
+          GIT_CONFIG_COUNT: "1",
+          GIT_CONFIG_KEY_0: "core.hooksPath",
+          GIT_CONFIG_VALUE_0: join(process.cwd(), ".oops-hooks"),
+        });
+
+        try {
+          await this.gitOops("split --yes");
+          const ran = readFileSync(".git/oops-hook-ran", "utf8");
+          if (ran !== "ran\nran\n") {
+            throw new Error(`pre-commit should run once per commit: ${ran}`);
+          }
+          const staged = await this.exec("git diff --cached --name-only");
+          if (staged.output !== "") {
+            throw new Error("Both commits should be created");
+          }
+        } finally {
+          process.env = savedEnv;
+          rmSync(".oops-hooks", { recursive: true, force: true });
+          rmSync(".git/oops-hook-ran", { force: true });
+        }
+      }
+    );
+  }
+
+  async testSplitKeepsUnstagedChanges() {
+    await this.test(
+      "split: keeps unstaged edits out of the commits",
+      async () => {
+        mkdirSync("lib", { recursive: true });
+        mkdirSync("site", { recursive: true });
+        await this.createTestFiles({
+          "lib/core.js": "staged version",
+          "site/index.html": "page",
+        });
+        await this.exec("git add .");
+        await this.createTestFiles({ "lib/core.js": "unstaged edit" });
+
+        await this.gitOops("split --yes");
+
+        const committed = await this.exec("git show HEAD~1:lib/core.js");
+        if (committed.output !== "staged version") {
+          throw new Error("Split should commit the staged content only");
+        }
+        const unstaged = await this.exec("git diff --name-only");
+        const staged = await this.exec("git diff --cached --name-only");
+        if (unstaged.output !== "lib/core.js" || staged.output !== "") {
+          throw new Error("The unstaged edit should stay unstaged");
+        }
+        await this.exec('git commit -am "Keep edit"');
+      }
+    );
+  }
+
+  async testSplitStrategies() {
+    await this.test("split: --depth groups nested packages apart", async () => {
+      mkdirSync("packages/one", { recursive: true });
+      mkdirSync("packages/two", { recursive: true });
+      await this.createTestFiles({
+        "packages/one/index.js": "one",
+        "packages/two/index.js": "two",
+      });
+      await this.exec("git add .");
+
+      const shallow = await this.gitOops("split --dry-run");
+      if (!shallow.output.includes("no split needed")) {
+        throw new Error("Depth 1 should keep packages/ together");
+      }
+
+      const result = await this.gitOops("split --depth 2 --dry-run");
+      if (
+        !result.output.includes("(packages/one):") ||
+        !result.output.includes("(packages/two):")
+      ) {
+        throw new Error("Depth 2 should split packages/one from packages/two");
+      }
+    });
+
+    await this.test("split: --by type previews buckets", async () => {
+      await this.createTestFiles({
+        "packages/one/index.test.js": "test",
+        "packages/one/GUIDE.md": "guide",
+      });
+      await this.exec("git add .");
+
+      const result = await this.gitOops("split --by type --dry-run");
+      for (const bucket of ["test(tests)", "docs(docs)", "(source)"]) {
+        if (!result.output.includes(bucket)) {
+          throw new Error(`Preview should include ${bucket}`);
+        }
+      }
+    });
+
+    await this.test("split: --by glob uses configured rules", async () => {
+      await this.exec('git config oops.splitGroups "packages/one/**=first"');
+      try {
+        const result = await this.gitOops("split --by glob --yes");
+        const log = await this.exec("git log --format=%s -2");
+        if (
+          !log.output.includes("(first): ") ||
+          log.output.split("\n")[0] !== "feat: add index.js"
+        ) {
+          throw new Error("Commits should follow the glob rules");
+        }
+      } finally {
+        await this.exec("git config --unset oops.splitGroups");
+      }
+    });
+  }
+
+  async testSplitHunks() {
+    await this.test("split: --hunks commits staged hunks only", async () => {
+      mkdirSync("hunks", { recursive: true });
+      const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+      await this.createTestFiles({ "hunks/file.txt": lines.join("\n") + "\n" });
+      await this.exec('git add . && git commit -m "Hunk base"');
+
+      lines[1] = "refactor";
+      lines[17] = "bug fix";
+      await this.createTestFiles({ "hunks/file.txt": lines.join("\n") + "\n" });
+      await this.createTestFiles({ "hunks-notes.md": "notes" });
+      await this.exec("git add .");
+      lines[9] = "not staged";
+      await this.createTestFiles({ "hunks/file.txt": lines.join("\n") + "\n" });
+
+      const preview = await this.gitOops("split --hunks --dry-run");
+      if (!preview.output.includes("2 hunks")) {
+        throw new Error("Preview should list the staged hunks");
+      }
+
+      await this.gitOops("split --hunks --yes");
+      const committed = await this.exec("git show HEAD~1:hunks/file.txt");
+      if (
+        !committed.output.includes("refactor") ||
+        !committed.output.includes("bug fix") ||
+        committed.output.includes("not staged")
+      ) {
+        throw new Error("Only the staged hunks should be committed");
+      }
+      const unstaged = await this.exec("git diff --name-only");
+      if (unstaged.output !== "hunks/file.txt") {
+        throw new Error("The unstaged hunk should stay in the working tree");
+      }
+      await this.exec('git commit -am "Unstaged hunk"');
+    });
+
+    await this.test("split: --hunks on an unborn branch", async () => {
+      await this.exec(`git checkout --orphan unborn-${this.testId}`);
+      await this.exec("git rm -r -q --cached .");
+      mkdirSync("unborn-a", { recursive: true });
+      mkdirSync("unborn-b", { recursive: true });
+      await this.createTestFiles({
+        "unborn-a/one.txt": "one\n",
+        "unborn-b/two.txt": "two\n",
+      });
+      await this.exec("git add unborn-a unborn-b");
+
+      try {
+        await this.gitOops("split --hunks --yes");
+        const count = await this.exec("git rev-list --count HEAD");
+        if (count.output !== "2") {
+          throw new Error(`Expected 2 commits, got ${count.output}`);
+        }
+      } finally {
+        await this.exec("git checkout -f main");
+        await this.exec(`git branch -D unborn-${this.testId}`);
+      }
+    });
+  }
+
+  async testSplitMessages() {
+    await this.test("split: messages describe each group's diff", async () => {
+      mkdirSync("lib", { recursive: true });
+      mkdirSync("tests", { recursive: true });
+      await this.createTestFiles({
+        "lib/parse.js":
+          "export function parseFlags(argv) {\n  return argv;\n}\n",
+        "tests/parse.test.js": "test('parses', () => {});\n",
+      });
+      await this.exec("git add .");
+
+      const result = await this.gitOops("split --dry-run");
+      if (!result.output.includes('"feat(lib): add parseFlags"')) {
+        throw new Error(
+          "Source group should get a feat message naming the symbol"
+        );
+      }
+      if (!result.output.includes('"test(tests): add parse.test.js"')) {
+        throw new Error("Test group should get a test message");
+      }
+    });
+
+    await this.test(
+      "split: --message-template overrides the format",
+      async () => {
+        await this.gitOops(
+          'split --message-template "{scope}: {summary}" --yes'
+        );
+        const log = await this.exec("git log --format=%s -2");
+        if (log.output !== "tests: add parse.test.js\nlib: add parseFlags") {
+          throw new Error(`Unexpected messages: ${log.output}`);
+        }
+      }
+    );
   }
 
   async testYank() {
@@ -241,6 +755,211 @@ class GitOopsTestSuite {
 
       const result = await this.gitOops("yank --yes");
     });
+
+    await this.test(
+      "yank: --abort and --continue after a rebase conflict",
+      async () => {
+        await this.exec("git checkout main");
+        await this.createTestFiles({ "yank-conflict.txt": "base\n" });
+        await this.exec("git add yank-conflict.txt");
+        await this.exec('git commit -m "Yank conflict base"');
+        await this.exec(`git checkout -b yank-up-${this.testId}`);
+        await this.createTestFiles({ "yank-conflict.txt": "upstream\n" });
+        await this.exec('git commit -am "Upstream side"');
+        await this.exec("git checkout main");
+        await this.exec(`git checkout -b yank-work-${this.testId}`);
+        await this.exec(`git branch --set-upstream-to yank-up-${this.testId}`);
+        await this.createTestFiles({ "yank-conflict.txt": "local\n" });
+        await this.exec('git commit -am "Local side"');
+        const head = await this.exec("git rev-parse HEAD");
+        await this.createTestFiles({ "yank-dirty.txt": "dirty\n" });
+        await this.exec("git add yank-dirty.txt");
+
+        await this.gitOops("yank --yes", true);
+        await this.gitOops("yank --abort");
+
+        const after = await this.exec("git rev-parse HEAD");
+        const status = await this.exec("git status --porcelain");
+        if (
+          after.output !== head.output ||
+          status.output !== "A  yank-dirty.txt"
+        ) {
+          throw new Error(
+            `--abort should restore HEAD and the stash: ${status.output}`
+          );
+        }
+
+        await this.gitOops("yank --yes", true);
+        await this.createTestFiles({ "yank-conflict.txt": "resolved\n" });
+        await this.exec("git add yank-conflict.txt");
+        await this.gitOops("yank --continue");
+
+        const log = await this.exec("git log --format=%s -2");
+        const dirty = await this.exec("git status --porcelain yank-dirty.txt");
+        await this.exec("git reset --hard");
+        await this.exec("git checkout main");
+        if (log.output !== "Local side\nUpstream side") {
+          throw new Error(`--continue should finish the rebase: ${log.output}`);
+        }
+        if (dirty.output !== "A  yank-dirty.txt") {
+          throw new Error("--continue should restore the stash");
+        }
+      }
+    );
+
+    await this.test(
+      "yank: --all fast-forwards branches behind their upstream",
+      async () => {
+        await this.exec("git checkout main");
+        await this.exec(`git branch yank-all-up-${this.testId}`);
+        for (const name of ["ff", "div"]) {
+          await this.exec(
+            `git branch --track yank-all-${name}-${this.testId} yank-all-up-${this.testId}`
+          );
+        }
+        await this.exec(`git checkout yank-all-up-${this.testId}`);
+        await this.createTestFiles({ "yank-all.txt": "upstream\n" });
+        await this.exec("git add yank-all.txt");
+        await this.exec('git commit -m "Yank all upstream"');
+        await this.exec(`git checkout yank-all-div-${this.testId}`);
+        await this.createTestFiles({ "yank-all-div.txt": "local\n" });
+        await this.exec("git add yank-all-div.txt");
+        await this.exec('git commit -m "Yank all diverged"');
+        const diverged = await this.exec("git rev-parse HEAD");
+        await this.exec("git checkout main");
+
+        const result = await this.gitOops("yank --all --yes 2>&1");
+
+        const up = await this.exec(`git rev-parse yank-all-up-${this.testId}`);
+        const ff = await this.exec(`git rev-parse yank-all-ff-${this.testId}`);
+        const div = await this.exec(
+          `git rev-parse yank-all-div-${this.testId}`
+        );
+        if (ff.output !== up.output) {
+          throw new Error("The branch behind its upstream should fast-forward");
+        }
+        if (div.output !== diverged.output) {
+          throw new Error("The diverged branch should be left alone");
+        }
+        if (!result.output.includes(`yank-all-div-${this.testId}: diverged`)) {
+          throw new Error(
+            `The diverged branch should be reported: ${result.output}`
+          );
+        }
+      }
+    );
+
+    await this.test(
+      "yank: refuses to restore when the stash list changed",
+      async () => {
+        await this.exec(`git checkout yank-work-${this.testId}`);
+        await this.exec(`git reset --hard yank-up-${this.testId}`);
+        await this.exec(`git checkout yank-up-${this.testId}`);
+        await this.createTestFiles({ "yank-conflict.txt": "upstream 2\n" });
+        await this.exec('git commit -am "Upstream side 2"');
+        await this.exec(`git checkout yank-work-${this.testId}`);
+        await this.createTestFiles({ "yank-conflict.txt": "local 2\n" });
+        await this.exec('git commit -am "Local side 2"');
+        await this.createTestFiles({ "yank-mine.txt": "mine\n" });
+
+        await this.gitOops("yank --yes", true);
+        await this.createTestFiles({ "yank-conflict.txt": "resolved 2\n" });
+        await this.exec("git add yank-conflict.txt");
+        await this.createTestFiles({ "yank-other.txt": "other\n" });
+        await this.exec('git stash push -u -m "someone else"');
+        await this.gitOops("yank --continue");
+
+        const stashes = await this.exec("git stash list --format=%gs");
+        const mine = existsSync("yank-mine.txt");
+        await this.exec("git stash clear");
+        await this.exec("git checkout main");
+        if (mine || !stashes.output.includes("oops-yank-")) {
+          throw new Error("The yank stash should be left alone");
+        }
+        if (!stashes.output.startsWith("On ")) {
+          throw new Error(
+            `The other stash should stay on top: ${stashes.output}`
+          );
+        }
+      }
+    );
+
+    await this.test(
+      "yank: keeps a conflicting stash until every file is resolved",
+      async () => {
+        await this.exec("git checkout main");
+        await this.createTestFiles({ "yank-stash.txt": "base\n" });
+        await this.exec("git add yank-stash.txt");
+        await this.exec('git commit -m "Yank stash base"');
+        await this.exec(`git branch yank-stash-work-${this.testId}`);
+        await this.exec(`git checkout -b yank-stash-up-${this.testId}`);
+        await this.createTestFiles({ "yank-stash.txt": "upstream\n" });
+        await this.exec('git commit -am "Yank stash upstream"');
+        await this.exec(`git checkout yank-stash-work-${this.testId}`);
+        await this.exec(
+          `git branch --set-upstream-to yank-stash-up-${this.testId}`
+        );
+        await this.createTestFiles({ "yank-stash.txt": "mine\n" });
+
+        const result = await this.gitOops("yank --ff-only --yes 2>&1");
+        const kept = await this.exec("git stash list --format=%gs");
+        if (!result.output.includes("take mine:")) {
+          throw new Error(
+            `Conflicted files should be listed: ${result.output}`
+          );
+        }
+        if (!kept.output.includes("oops-yank-")) {
+          throw new Error("The stash should be kept while conflicts remain");
+        }
+
+        await this.exec("git checkout --theirs -- yank-stash.txt");
+        await this.exec("git reset -q -- yank-stash.txt");
+        await this.gitOops("yank --continue --yes");
+
+        const stashes = await this.exec("git stash list --format=%gs");
+        const content = readFileSync("yank-stash.txt", "utf8");
+        const log = await this.exec("git log --format=%s -1");
+        await this.exec("git reset --hard");
+        await this.exec("git checkout main");
+        if (stashes.output.includes("oops-yank-")) {
+          throw new Error("The stash should be dropped once resolved");
+        }
+        if (content !== "mine\n" || log.output !== "Yank stash upstream") {
+          throw new Error(`Expected mine on top of upstream: ${content}`);
+        }
+      }
+    );
+
+    await this.test(
+      "yank: does not pull a default branch into a branch without upstream",
+      async () => {
+        await this.exec("git checkout main");
+        await this.exec("git update-ref refs/remotes/origin/main HEAD");
+        await this.exec(`git checkout -b yank-no-upstream-${this.testId}`);
+        await this.createTestFiles({ "yank-no-upstream.txt": "feature\n" });
+        await this.exec("git add yank-no-upstream.txt");
+        await this.exec('git commit -m "Yank no upstream"');
+        const head = await this.exec("git rev-parse HEAD");
+
+        try {
+          const result = await this.gitOops("yank --yes 2>&1", true);
+          const output = result.stdout ?? result.output;
+          if (!output.includes("has no upstream configured")) {
+            throw new Error(`Expected the no-upstream path: ${output}`);
+          }
+          if (output.includes("origin/main")) {
+            throw new Error(`origin/main should not be pulled: ${output}`);
+          }
+          const after = await this.exec("git rev-parse HEAD");
+          if (after.output !== head.output) {
+            throw new Error("The branch should be left as it was");
+          }
+        } finally {
+          await this.exec("git update-ref -d refs/remotes/origin/main");
+          await this.exec("git checkout main");
+        }
+      }
+    );
   }
 
   async testPocket() {
@@ -278,6 +997,96 @@ class GitOopsTestSuite {
       const result = await this.gitOops("pocket list");
       // Should list available pocket saves
     });
+
+    await this.test("pocket: stack keeps every pocket", async () => {
+      await this.exec("git checkout main");
+      await this.createTestFiles({ "README.md": "first pocket\n" });
+      await this.gitOops('pocket -m "first" --yes');
+      await this.createTestFiles({ "README.md": "second pocket\n" });
+      await this.gitOops('pocket -m "second" --yes');
+
+      const result = await this.gitOops("pocket list");
+      if (
+        !result.output.includes("first") ||
+        !result.output.includes("second")
+      ) {
+        throw new Error("Both pockets should be listed");
+      }
+    });
+
+    await this.test("unpocket: restore an older pocket", async () => {
+      await this.gitOops("unpocket 1");
+
+      const content = readFileSync("README.md", "utf8");
+      if (content !== "first pocket\n") {
+        throw new Error("Older pocket should be restored");
+      }
+
+      await this.exec("git checkout -- README.md");
+      await this.gitOops("pocket drop --yes");
+    });
+
+    await this.test("unpocket: refuses on a dirty tree", async () => {
+      await this.createTestFiles({ "README.md": "dirty\n" });
+      await this.gitOops('pocket -m "third" --yes');
+      await this.createTestFiles({ "README.md": "local edit\n" });
+
+      const result = await this.gitOops("unpocket", true);
+      if (!result.output.includes("uncommitted changes")) {
+        throw new Error("Unpocket should refuse to clobber local edits");
+      }
+
+      await this.exec("git checkout -- README.md");
+    });
+
+    await this.test("pocket: untracked files round-trip", async () => {
+      await this.exec("git checkout main");
+      await this.createTestFiles({ "pocket-untracked.txt": "keep me\n" });
+      await this.gitOops('pocket -m "untracked" --yes');
+
+      if (existsSync("pocket-untracked.txt")) {
+        throw new Error("Untracked file should be cleaned after pocketing");
+      }
+
+      await this.gitOops("unpocket");
+      if (readFileSync("pocket-untracked.txt", "utf8") !== "keep me\n") {
+        throw new Error("Untracked file should be restored by unpocket");
+      }
+
+      await this.exec("git clean -f -- pocket-untracked.txt");
+    });
+
+    await this.test(
+      "pocket: push, ls-remote and fetch via a bare remote",
+      async () => {
+        const remotePath = join(
+          this.testDir,
+          "..",
+          `pocket-remote-${this.testId}.git`
+        );
+        await this.exec(`git init -q --bare -b main "${remotePath}"`);
+        await this.exec(`git remote add pocket-remote "${remotePath}"`);
+
+        try {
+          await this.createTestFiles({ "README.md": "shared pocket\n" });
+          await this.gitOops('pocket -m "shared" --push pocket-remote --yes');
+
+          const list = await this.gitOops("pocket ls-remote pocket-remote");
+          if (!list.output.includes("test/main")) {
+            throw new Error("Pushed pocket should be namespaced by user");
+          }
+
+          await this.gitOops("pocket fetch test/main pocket-remote");
+          if (readFileSync("README.md", "utf8") !== "shared pocket\n") {
+            throw new Error("Fetched pocket should be restored");
+          }
+        } finally {
+          await this.exec("git checkout -- README.md");
+          await this.exec("git remote remove pocket-remote");
+          rmSync(remotePath, { recursive: true, force: true });
+        }
+      }
+    );
   }
 
   async testRevertMerge() {
@@ -318,6 +1127,85 @@ class GitOopsTestSuite {
         throw new Error("Should detect non-merge commits");
       }
     });
+
+    await this.test(
+      "revert-merge: picks the parent on the current branch",
+      async () => {
+        // main merged into a feature branch, which is then merged back: the
+        // first merge's mainline on main is parent 2
+        await this.exec("git checkout main");
+        await this.exec(`git checkout -b mainline-feat-${this.testId}`);
+        await this.createTestFiles({ "mainline-feat.txt": "feature" });
+        await this.exec("git add mainline-feat.txt");
+        await this.exec('git commit -m "Mainline feature"');
+        await this.exec("git checkout main");
+        await this.createTestFiles({ "mainline-main.txt": "main" });
+        await this.exec("git add mainline-main.txt");
+        await this.exec('git commit -m "Mainline main"');
+        await this.exec(`git checkout mainline-feat-${this.testId}`);
+        await this.exec("git merge main --no-ff --no-edit");
+        const inner = await this.exec("git rev-parse HEAD");
+        await this.exec("git checkout main");
+        await this.exec(
+          `git merge mainline-feat-${this.testId} --no-ff --no-edit`
+        );
+
+        const result = await this.gitOops(
+          `revert-merge ${inner.output.slice(0, 8)} --yes`
+        );
+
+        const feature = existsSync("mainline-feat.txt");
+        const main = existsSync("mainline-main.txt");
+        if (!result.output.includes("Mainline: parent 2")) {
+          throw new Error(`Parent 2 should be the mainline: ${result.output}`);
+        }
+        if (!result.output.includes("'main', from the merge message")) {
+          throw new Error("Parents should be shown with their branch names");
+        }
+        if (feature || !main) {
+          throw new Error("The revert should undo the feature side");
+        }
+      }
+    );
+
+    await this.test(
+      "revert-merge: --reland brings the merge back with newer commits",
+      async () => {
+        await this.exec("git checkout main");
+        await this.exec(`git checkout -b reland-${this.testId}`);
+        await this.createTestFiles({ "reland-1.txt": "first" });
+        await this.exec("git add reland-1.txt");
+        await this.exec('git commit -m "Reland first"');
+        await this.exec("git checkout main");
+        await this.exec(`git merge reland-${this.testId} --no-ff --no-edit`);
+        const merge = await this.exec("git rev-parse --short HEAD");
+        await this.gitOops(`revert-merge ${merge.output} --yes`);
+        const revert = await this.exec("git rev-parse --short HEAD");
+        await this.exec(`git checkout reland-${this.testId}`);
+        await this.createTestFiles({ "reland-2.txt": "second" });
+        await this.exec("git add reland-2.txt");
+        await this.exec('git commit -m "Reland second"');
+        await this.exec("git checkout main");
+
+        await this.gitOops(`revert-merge --reland ${revert.output} --yes`);
+
+        const tags = await this.exec("git tag -l 'oops/revert-merge-reland-*'");
+        if (!existsSync("reland-1.txt") || !existsSync("reland-2.txt")) {
+          throw new Error("Both the merged and the newer commits should be in");
+        }
+        if (!tags.output) {
+          throw new Error("A safety tag should be created");
+        }
+
+        const again = await this.gitOops(
+          `revert-merge --reland ${revert.output} --yes`,
+          true
+        );
+        if (!again.output.includes("already reverted")) {
+          throw new Error(`A second reland should be refused: ${again.output}`);
+        }
+      }
+    );
   }
 
   async testUndo() {
@@ -383,6 +1271,163 @@ class GitOopsTestSuite {
         throw new Error("Should handle no staged changes gracefully");
       }
     });
+
+    await this.test(
+      "fixup: --to folds changes into an older commit",
+      async () => {
+        await this.createTestFiles({ "fixup-old.txt": "old\n" });
+        await this.exec("git add fixup-old.txt");
+        await this.exec('git commit -m "Add fixup-old"');
+        await this.createTestFiles({ "fixup-later.txt": "later\n" });
+        await this.exec("git add fixup-later.txt");
+        await this.exec('git commit -m "Add fixup-later"');
+
+        await this.createTestFiles({ "fixup-old.txt": "old, fixed\n" });
+        await this.gitOops('fixup --to ":/Add fixup-old" --yes');
+
+        const log = await this.exec("git log --format=%s -2");
+        if (log.output !== "Add fixup-later\nAdd fixup-old") {
+          throw new Error(`Fixup commit should be squashed: ${log.output}`);
+        }
+        const content = await this.exec("git show HEAD~1:fixup-old.txt");
+        if (content.output !== "old, fixed") {
+          throw new Error("The older commit should contain the fix");
+        }
+        const tags = await this.exec("git tag --list 'oops/fixup-*'");
+        if (tags.output === "") {
+          throw new Error("A safety tag should be created");
+        }
+      }
+    );
+
+    await this.test("fixup: --to refuses commits on the upstream", async () => {
+      await this.exec("git update-ref refs/remotes/origin/main HEAD");
+      await this.createTestFiles({ "fixup-old.txt": "pushed fix\n" });
+      await this.exec("git add fixup-old.txt");
+
+      try {
+        const result = await this.gitOops("fixup --to HEAD~1 --yes", true);
+        if (result.success !== false || !result.output.includes("already on")) {
+          throw new Error("Fixing up a pushed commit should be refused");
+        }
+      } finally {
+        await this.exec("git update-ref -d refs/remotes/origin/main");
+        await this.exec("git reset --hard HEAD");
+      }
+    });
+  }
+
+  async testAbsorb() {
+    await this.test(
+      "absorb: routes hunks to the commits they fix",
+      async () => {
+        await this.exec("git checkout main");
+        await this.exec("git update-ref refs/remotes/origin/main HEAD");
+        try {
+          await this.createTestFiles({ "absorb-a.txt": "a1\na2\na3\n" });
+          await this.exec("git add absorb-a.txt");
+          await this.exec('git commit -m "Add absorb-a"');
+          await this.createTestFiles({ "absorb-b.txt": "b1\nb2\nb3\n" });
+          await this.exec("git add absorb-b.txt");
+          await this.exec('git commit -m "Add absorb-b"');
+
+          await this.createTestFiles({
+            "absorb-a.txt": "a1\nA2\na3\n",
+            "absorb-b.txt": "b1\nb2\nB3\n",
+            "absorb-new.txt": "new\n",
+          });
+          const readme = readFileSync("README.md", "utf8");
+          await this.createTestFiles({ "README.md": `${readme}pushed fix\n` });
+          await this.exec(
+            "git add absorb-a.txt absorb-b.txt absorb-new.txt README.md"
+          );
+
+          await this.gitOops("absorb --and-rebase --yes");
+
+          const log = await this.exec("git log --format=%s -2");
+          if (log.output !== "Add absorb-b\nAdd absorb-a") {
+            throw new Error(`Fixups should be squashed in: ${log.output}`);
+          }
+          const a = await this.exec("git show HEAD~1:absorb-a.txt");
+          const b = await this.exec("git show HEAD:absorb-b.txt");
+          if (!a.output.includes("A2") || !b.output.includes("B3")) {
+            throw new Error("Each hunk should land in the commit that owns it");
+          }
+          const status = await this.exec("git status --porcelain");
+          if (status.output !== "M  README.md\nA  absorb-new.txt") {
+            throw new Error(
+              `Unabsorbed changes should stay staged: ${status.output}`
+            );
+          }
+        } finally {
+          await this.exec("git update-ref -d refs/remotes/origin/main");
+          await this.exec("git reset --hard HEAD");
+        }
+      }
+    );
+
+    await this.test("absorb: refuses --and-rebase across a merge", async () => {
+      const before = await this.exec("git rev-parse HEAD");
+      await this.exec("git update-ref refs/remotes/origin/main HEAD");
+      try {
+        await this.createTestFiles({ "absorb-m.txt": "m1\nm2\nm3\n" });
+        await this.exec("git add absorb-m.txt");
+        await this.exec('git commit -m "Add absorb-m"');
+        await this.exec("git checkout -b absorb-side");
+        await this.createTestFiles({ "absorb-side.txt": "side\n" });
+        await this.exec("git add absorb-side.txt");
+        await this.exec('git commit -m "Add absorb-side"');
+        await this.exec("git checkout main");
+        await this.exec('git merge --no-ff -m "Merge absorb-side" absorb-side');
+        const head = await this.exec("git rev-parse HEAD");
+
+        await this.createTestFiles({ "absorb-m.txt": "m1\nM2\nm3\n" });
+        await this.exec("git add absorb-m.txt");
+
+        const result = await this.gitOops("absorb --and-rebase --yes", true);
+        if (
+          result.success !== false ||
+          !result.output.includes("merge commits")
+        ) {
+          throw new Error("Rebasing across a merge should be refused");
+        }
+        const after = await this.exec("git rev-parse HEAD");
+        if (after.output !== head.output) {
+          throw new Error("No fixup commit should be created");
+        }
+        const staged = await this.exec("git diff --cached --name-only");
+        if (staged.output !== "absorb-m.txt") {
+          throw new Error("The hunk should stay staged");
+        }
+      } finally {
+        await this.exec("git update-ref -d refs/remotes/origin/main");
+        await this.exec(`git reset --hard ${before.output}`);
+        await this.exec("git branch -D absorb-side");
+      }
+    });
+
+    await this.test(
+      "absorb: leaves changes staged when all commits are pushed",
+      async () => {
+        await this.exec("git update-ref refs/remotes/origin/main HEAD");
+        try {
+          await this.createTestFiles({ "absorb-a.txt": "a1\nA2 again\na3\n" });
+          await this.exec("git add absorb-a.txt");
+
+          const result = await this.gitOops("absorb --yes");
+          if (!result.output.includes("nothing to absorb into")) {
+            throw new Error("Pushed commits should not be absorbed into");
+          }
+          const staged = await this.exec("git diff --cached --name-only");
+          if (staged.output !== "absorb-a.txt") {
+            throw new Error("The hunk should stay staged");
+          }
+        } finally {
+          await this.exec("git update-ref -d refs/remotes/origin/main");
+          await this.exec("git reset --hard HEAD");
+        }
+      }
+    );
   }
 
   async testSave() {
@@ -433,6 +1478,281 @@ class GitOopsTestSuite {
     });
   }
 
+  async testMessageProvider() {
+    // Echoes parts of the JSON request back, so the tests can see what the
+    // provider was sent
+    writeFileSync(
+      join(".git", "oops-provider.js"),
+      `let data = "";
+process.stdin.on("data", (chunk) => (data += chunk));
+process.stdin.on("end", () => {
+  const request = JSON.parse(data);
+  const previous = request.previousMessage ? " after " + request.previousMessage : "";
+  console.log(JSON.stringify({
+    message: request.command + ": " + request.files.join(", ") + previous,
+  }));
+});
+`
+    );
+
+    await this.test("provider: save --suggest uses the command", async () => {
+      await this.exec("git checkout main");
+      await this.exec(
+        'git config oops.messageProvider "node .git/oops-provider.js"'
+      );
+      await this.createTestFiles({ "provided.txt": "provided" });
+
+      await this.gitOops("save --suggest --yes");
+      const log = await this.exec("git log --format=%s -1");
+      if (log.output !== "save: provided.txt") {
+        throw new Error(`Unexpected message: ${log.output}`);
+      }
+    });
+
+    await this.test(
+      "provider: fixup --suggest sees the old message",
+      async () => {
+        await this.createTestFiles({ "provided-fix.txt": "fix" });
+
+        await this.gitOops("fixup --suggest --yes");
+        const log = await this.exec("git log --format=%s -1");
+        if (
+          log.output !==
+          "fixup: provided-fix.txt, provided.txt after save: provided.txt"
+        ) {
+          throw new Error(`Unexpected message: ${log.output}`);
+        }
+      }
+    );
+
+    await this.test(
+      "provider: failures fall back to the heuristic",
+      async () => {
+        await this.exec('git config oops.messageProvider "exit 1"');
+        await this.createTestFiles({ "notes.md": "# Notes\n" });
+
+        try {
+          const result = await this.gitOops("save --suggest --yes 2>&1");
+          if (!result.output.includes("exited with code 1")) {
+            throw new Error("The provider failure should be reported");
+          }
+          const log = await this.exec("git log --format=%s -1");
+          if (log.output !== "docs: add notes.md") {
+            throw new Error(`Unexpected message: ${log.output}`);
+          }
+
+          await this.exec("mkdir -p dry-run");
+          await this.createTestFiles({
+            "dry-run-split.txt": "dry run",
+            "dry-run/split.txt": "dry run",
+          });
+          await this.exec("git add dry-run-split.txt dry-run");
+          const preview = await this.gitOops("split --dry-run 2>&1");
+          if (!preview.output.includes("Dry run")) {
+            throw new Error("split --dry-run should show a plan");
+          }
+          if (preview.output.includes("exited with code 1")) {
+            throw new Error("split --dry-run should not run the provider");
+          }
+          await this.exec("git reset -q dry-run-split.txt dry-run");
+          await this.exec("rm -r dry-run-split.txt dry-run");
+        } finally {
+          await this.exec("git config --unset oops.messageProvider");
+        }
+      }
+    );
+  }
+
+  async testHistory() {
+    await this.test("history: lists journaled operations", async () => {
+      await this.exec("git checkout main");
+      await this.createTestFiles({ "history-test.txt": "history content" });
+      await this.gitOops('save --message "History save" --yes');
+
+      const result = await this.gitOops("history");
+      if (!result.output.includes("save")) {
+        throw new Error("History should list the save operation");
+      }
+    });
+
+    await this.test("rollback: restores refs after undo", async () => {
+      await this.exec("git checkout main");
+      await this.createTestFiles({ "rollback-test.txt": "rollback content" });
+      await this.exec("git add rollback-test.txt");
+      await this.exec('git commit -m "Commit to roll back to"');
+      const beforeUndo = await this.exec("git rev-parse HEAD");
+
+      await this.gitOops("undo --yes");
+
+      const entries = readFileSync(".git/oops/journal.jsonl", "utf8")
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      const undoEntry = entries[entries.length - 1];
+      if (undoEntry.command !== "undo") {
+        throw new Error("Undo should be recorded in the journal");
+      }
+
+      await this.gitOops(`rollback ${undoEntry.id} --yes`);
+
+      const afterRollback = await this.exec("git rev-parse HEAD");
+      if (afterRollback.output !== beforeUndo.output) {
+        throw new Error("Rollback should restore HEAD to the undone commit");
+      }
+
+      const status = await this.exec("git status --porcelain");
+      if (status.output.includes("rollback-test.txt")) {
+        throw new Error("Rollback should restore the index");
+      }
+    });
+  }
+
+  async testTags() {
+    await this.test("tags: list safety tags", async () => {
+      const result = await this.gitOops("tags list");
+      if (!result.output.includes("oops/undo-")) {
+        throw new Error("Undo safety tags should be listed");
+      }
+    });
+
+    await this.test("tags: prune keeps newest tags", async () => {
+      await this.gitOops("tags prune --keep 1 --include-unreachable --yes");
+
+      const tags = await this.exec("git tag -l 'oops/*'");
+      const remaining = tags.output.split("\n").filter((t) => t.trim());
+      if (remaining.length !== 1) {
+        throw new Error(`Expected 1 safety tag, found ${remaining.length}`);
+      }
+    });
+  }
+
+  async testRescue() {
+    await this.test("rescue: lists a commit lost to reset --hard", async () => {
+      await this.exec("git checkout main");
+      await this.createTestFiles({ "rescue-test.txt": "lost work" });
+      await this.exec("git add rescue-test.txt");
+      await this.exec('git commit -m "Work about to be lost"');
+      await this.exec("git reset --hard HEAD~1");
+
+      const result = await this.gitOops("rescue");
+      if (!result.output.includes("Work about to be lost")) {
+        throw new Error("Rescue should list the reset commit");
+      }
+    });
+
+    await this.test("rescue: recovers a commit as a branch", async () => {
+      const lost = await this.exec("git rev-parse HEAD@{1}");
+      const branchName = `rescued-${this.testId}`;
+      await this.gitOops(
+        `rescue ${lost.output.slice(0, 12)} --branch ${branchName}`
+      );
+
+      const branch = await this.exec(`git rev-parse ${branchName}`);
+      if (branch.output !== lost.output) {
+        throw new Error("Rescued branch should point at the lost commit");
+      }
+    });
+
+    await this.test("rescue: recovers a dropped stash", async () => {
+      await this.createTestFiles({ "README.md": "stashed then dropped\n" });
+      await this.exec("git stash");
+      const dropped = await this.exec("git rev-parse stash@{0}");
+      await this.exec("git stash drop");
+
+      await this.gitOops(`rescue ${dropped.output.slice(0, 12)} --stash`);
+
+      const stash = await this.exec("git rev-parse stash@{0}");
+      if (stash.output !== dropped.output) {
+        throw new Error("Dropped stash should be back on the stash list");
+      }
+      await this.exec("git stash drop");
+    });
+  }
+
+  async testConfig() {
+    await this.test("config: list shows sources per layer", async () => {
+      await this.exec("git config oops.branchPrefix feat/");
+      writeFileSync(".gitoopsrc", JSON.stringify({ saveMessage: "rc save" }));
+
+      try {
+        const result = await this.gitOops("config list");
+        if (
+          !result.output.includes("feat/") ||
+          !result.output.includes("git config")
+        ) {
+          throw new Error("git config value and source should be listed");
+        }
+        if (
+          !result.output.includes("rc save") ||
+          !result.output.includes(".gitoopsrc")
+        ) {
+          throw new Error(".gitoopsrc value and source should be listed");
+        }
+      } finally {
+        await this.exec("git config --unset oops.branchPrefix");
+        rmSync(".gitoopsrc", { force: true });
+      }
+    });
+
+    await this.test("config: save uses the configured message", async () => {
+      await this.exec("git checkout main");
+      await this.exec('git config oops.saveMessage "Configured save"');
+
+      try {
+        await this.createTestFiles({ "config-save.txt": "configured" });
+        await this.gitOops("save --yes");
+
+        const subject = await this.exec("git log -1 --format=%s");
+        if (subject.output !== "Configured save") {
+          throw new Error(
+            `Expected configured message, got '${subject.output}'`
+          );
+        }
+      } finally {
+        await this.exec("git config --unset oops.saveMessage");
+      }
+    });
+  }
+
+  async testJsonOutput() {
+    await this.test("json: save reports refs and created commits", async () => {
+      await this.exec("git checkout main");
+      await this.createTestFiles({ "json-save.txt": "json" });
+
+      const result = await this.gitOops('save -m "JSON save" --yes --json');
+      const report = JSON.parse(result.output);
+      const head = await this.exec("git rev-parse HEAD");
+
+      if (report.operation !== "save" || !report.ok) {
+        throw new Error("Result should describe a successful save");
+      }
+      if (report.commits.length !== 1 || report.commits[0] !== head.output) {
+        throw new Error("Created commit should be reported");
+      }
+      if (!report.refs.some((change) => change.ref === "refs/heads/main")) {
+        throw new Error("Changed branch ref should be reported");
+      }
+    });
+
+    await this.test("json: dry-run reports the plan", async () => {
+      const result = await this.gitOops("undo --dry-run --json");
+      const report = JSON.parse(result.output);
+      if (!report.dryRun || report.plan.length === 0) {
+        throw new Error("Dry run should list planned steps");
+      }
+    });
+
+    await this.test("json: errors carry a stable code", async () => {
+      const result = await this.gitOops("undo --json", true);
+      const report = JSON.parse(result.stdout);
+      if (report.ok || report.error.code !== "CONFIRMATION_REQUIRED") {
+        throw new Error(
+          "Unconfirmed undo should fail with CONFIRMATION_REQUIRED"
+        );
+      }
+    });
+  }
+
   async testErrorHandling() {
     await this.test("error: invalid command", async () => {
       const result = await this.gitOops("invalid-command", true);
@@ -516,12 +1836,23 @@ class GitOopsTestSuite {
       // Run all test suites
       await this.testWrongBranch();
       await this.testSplit();
+      await this.testSplitKeepsUnstagedChanges();
+      await this.testSplitStrategies();
+      await this.testSplitHunks();
+      await this.testSplitMessages();
       await this.testYank();
       await this.testPocket();
       await this.testRevertMerge();
       await this.testUndo();
       await this.testFixup();
+      await this.testAbsorb();
       await this.testSave();
+      await this.testMessageProvider();
+      await this.testHistory();
+      await this.testTags();
+      await this.testRescue();
+      await this.testConfig();
+      await this.testJsonOutput();
       await this.testErrorHandling();
     } catch (error) {
       this.log(`💥 Fatal error during testing: ${error.message}`, "error");